@@ -0,0 +1,53 @@
+#!/bin/bash
+
+# Redis Cluster + Sentinel Integration Test Setup Script (Linux, uses host networking)
+echo "🐳 Setting up Redis Cluster and Sentinel for integration tests..."
+
+# Check if Docker is running
+if ! docker info >/dev/null 2>&1; then
+    echo "❌ Docker is not running. Please start Docker and try again."
+    exit 1
+fi
+
+# Stop and remove existing containers if they exist
+echo "🧹 Cleaning up existing containers..."
+for name in redis-cluster-test redis-sentinel-master redis-sentinel-replica redis-sentinel-test; do
+    docker stop "$name" >/dev/null 2>&1 || true
+    docker rm "$name" >/dev/null 2>&1 || true
+done
+
+# Cluster: three masters and three replicas on ports 7000-7005
+echo "🚀 Starting Redis Cluster..."
+docker run -d \
+    --name redis-cluster-test \
+    --network host \
+    -e IP=127.0.0.1 \
+    grokzen/redis-cluster:7.0.10
+
+# Sentinel: master on 6380, replica on 6381, sentinel on 26379 monitoring "mymaster"
+echo "🚀 Starting Redis Sentinel..."
+docker run -d --name redis-sentinel-master --network host redis:alpine \
+    redis-server --port 6380
+docker run -d --name redis-sentinel-replica --network host redis:alpine \
+    redis-server --port 6381 --replicaof 127.0.0.1 6380
+docker run -d --name redis-sentinel-test --network host redis:alpine sh -c '
+    printf "port 26379\nsentinel monitor mymaster 127.0.0.1 6380 1\nsentinel down-after-milliseconds mymaster 2000\nsentinel failover-timeout mymaster 5000\n" > /tmp/sentinel.conf &&
+    redis-sentinel /tmp/sentinel.conf'
+
+# Wait for the cluster to form and the sentinel to find the master
+echo "⏳ Waiting for Redis to be ready..."
+sleep 10
+
+if docker exec redis-cluster-test redis-cli -p 7000 cluster info | grep -q cluster_state:ok &&
+    docker exec redis-sentinel-test redis-cli -p 26379 sentinel get-master-addr-by-name mymaster >/dev/null 2>&1; then
+    echo "✅ Redis Cluster and Sentinel are ready for integration tests!"
+    echo ""
+    echo "🧪 You can now run the tests:"
+    echo "   REDIS_CLUSTER_NODES=redis://127.0.0.1:7000 REDIS_SENTINELS=redis://127.0.0.1:26379 npm test -- redis-ha"
+    echo ""
+    echo "🛑 To stop Redis when done:"
+    echo "   docker rm -f redis-cluster-test redis-sentinel-master redis-sentinel-replica redis-sentinel-test"
+else
+    echo "❌ Redis failed to start properly"
+    exit 1
+fi
@@ -0,0 +1,90 @@
+import express from 'express';
+import request from 'supertest';
+
+import { apiCache } from '../middleware';
+import { getResponseFreshness, parseCacheControl } from '../utils/cacheControl';
+
+describe('cacheControl', () => {
+  test('parses directives', () => {
+    expect(parseCacheControl('public, max-age=60, s-maxage="120", No-Cache')).toEqual({
+      public: true,
+      'max-age': '60',
+      's-maxage': '120',
+      'no-cache': true,
+    });
+    expect(parseCacheControl(undefined)).toEqual({});
+  });
+
+  test('prefers s-maxage over max-age over Expires', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    const expires = 'Mon, 01 Jan 2024 00:01:00 GMT';
+    expect(getResponseFreshness({ cacheControl: 'max-age=10, s-maxage=20', expires }, now)).toBe(
+      20,
+    );
+    expect(getResponseFreshness({ cacheControl: 'max-age=10', expires }, now)).toBe(10);
+    expect(getResponseFreshness({ expires }, now)).toBe(60);
+    expect(getResponseFreshness({ expires: '0' }, now)).toBe(0);
+    expect(getResponseFreshness({}, now)).toBeUndefined();
+  });
+});
+
+describe('apiCache with respectCacheControl', () => {
+  function createApp(handler: express.RequestHandler) {
+    const app = express();
+    app.use(apiCache({ ttl: 30, useMemory: true, useRedis: false, respectCacheControl: true }));
+    app.get('/resource', handler);
+    return app;
+  }
+
+  test('request no-cache forces a fresh response that is stored again', async () => {
+    let calls = 0;
+    const app = createApp((req, res) => {
+      calls++;
+      res.json({ calls });
+    });
+
+    await request(app).get('/resource');
+    const r2 = await request(app).get('/resource').set('Cache-Control', 'no-cache');
+    const r3 = await request(app).get('/resource');
+
+    expect(r2.body.calls).toBe(2);
+    expect(r3.body.calls).toBe(2);
+    expect(calls).toBe(2);
+  });
+
+  test('response no-store and private are not stored', async () => {
+    let calls = 0;
+    const app = createApp((req, res) => {
+      calls++;
+      res.set('Cache-Control', calls % 2 ? 'no-store' : 'private, max-age=60').json({ calls });
+    });
+
+    await request(app).get('/resource');
+    await request(app).get('/resource');
+    await request(app).get('/resource');
+
+    expect(calls).toBe(3);
+  });
+
+  test('response max-age overrides the configured ttl', async () => {
+    const app = express();
+    const cache = apiCache({
+      ttl: 30,
+      useMemory: true,
+      useRedis: false,
+      respectCacheControl: true,
+    });
+    app.use(cache);
+    app.get('/short', (req, res) => {
+      res.set('Cache-Control', 'public, max-age=0').json({ ok: true });
+    });
+    app.get('/long', (req, res) => {
+      res.set('Cache-Control', 'public, max-age=120').json({ ok: true });
+    });
+
+    await request(app).get('/short');
+    await request(app).get('/long');
+
+    expect(cache.getCacheStats().keys).toBe(1);
+  });
+});
@@ -0,0 +1,64 @@
+import express from 'express';
+import request from 'supertest';
+
+import { apiCache } from '../middleware';
+
+describe('Cache-Status and Age headers', () => {
+  test('reports misses, hits with remaining ttl and the serving tier', async () => {
+    const app = express();
+    app.use(apiCache({ ttl: 30, useMemory: true, useRedis: false }));
+    app.get('/users', (req, res) => res.json([{ id: 1 }]));
+
+    const r1 = await request(app).get('/users');
+    const r2 = await request(app).get('/users');
+
+    expect(r1.headers['cache-status']).toBe('universal-api-cache; fwd=miss');
+    expect(r1.headers['age']).toBeUndefined();
+    expect(r2.headers['cache-status']).toMatch(
+      /^universal-api-cache; hit; ttl=(29|30); detail=memory$/,
+    );
+    expect(Number(r2.headers['age'])).toBeLessThanOrEqual(1);
+  });
+
+  test('reports stale entries that are refetched', async () => {
+    const app = express();
+    app.use(apiCache({ ttl: 0, staleWhileRevalidate: false, useMemory: true, useRedis: false }));
+    app.get('/data', (req, res) => res.json({ ok: true }));
+
+    await request(app).get('/data');
+    const r2 = await request(app).get('/data');
+
+    expect(r2.headers['cache-status']).toBe('universal-api-cache; fwd=stale; detail=memory');
+  });
+
+  test('supports a custom cache name and exposing the key', async () => {
+    const app = express();
+    app.use(
+      apiCache({
+        ttl: 30,
+        useMemory: true,
+        useRedis: false,
+        cacheName: 'edge-api',
+        exposeCacheKey: true,
+      }),
+    );
+    app.get('/items', (req, res) => res.json([]));
+
+    const r1 = await request(app).get('/items?b=2&a=1');
+
+    expect(r1.headers['cache-status']).toBe('edge-api; fwd=miss');
+    expect(r1.headers['x-cache-key']).toBe('GET:/items:a=1&b=2::anon');
+  });
+
+  test('can be disabled', async () => {
+    const app = express();
+    app.use(apiCache({ ttl: 30, useMemory: true, useRedis: false, cacheStatusHeader: false }));
+    app.get('/items', (req, res) => res.json([]));
+
+    await request(app).get('/items');
+    const r2 = await request(app).get('/items');
+
+    expect(r2.headers['cache-status']).toBeUndefined();
+    expect(r2.headers['age']).toBeDefined();
+  });
+});
@@ -0,0 +1,179 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+import { createCachedFetch } from '../cachedFetch';
+
+describe('createCachedFetch', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: http.IncomingMessage[];
+  let respond: (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req);
+      respond(req, res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const options = { ttl: 30, useMemory: true, useRedis: false };
+
+  test('caches GET responses for the upstream max-age', async () => {
+    respond = (req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'max-age=60' });
+      res.end(JSON.stringify({ ok: true }));
+    };
+    const cachedFetch = createCachedFetch(options);
+
+    const r1 = await cachedFetch(`${baseUrl}/users`);
+    const r2 = await cachedFetch(`${baseUrl}/users`);
+
+    expect(requests).toHaveLength(1);
+    expect(await r1.json()).toEqual({ ok: true });
+    expect(await r2.json()).toEqual({ ok: true });
+    expect(r1.headers.get('cache-status')).toBe('universal-api-cache; fwd=miss');
+    expect(r2.headers.get('cache-status')).toMatch(/^universal-api-cache; hit; ttl=(59|60)$/);
+    expect(r2.headers.get('content-type')).toBe('application/json');
+  });
+
+  test('does not store no-store responses or non-GET requests', async () => {
+    respond = (req, res) => {
+      res.setHeader('Cache-Control', req.url === '/secret' ? 'no-store' : 'max-age=60');
+      res.end('body');
+    };
+    const cachedFetch = createCachedFetch(options);
+
+    await cachedFetch(`${baseUrl}/secret`);
+    const r2 = await cachedFetch(`${baseUrl}/secret`);
+    await cachedFetch(`${baseUrl}/items`, { method: 'POST', body: 'x' });
+    await cachedFetch(`${baseUrl}/items`, { method: 'POST', body: 'x' });
+
+    expect(requests).toHaveLength(4);
+    expect(await r2.text()).toBe('body');
+    expect(cachedFetch.getCacheStats().keys).toBe(0);
+  });
+
+  test('does not store private responses', async () => {
+    respond = (req, res) => {
+      res.setHeader('Cache-Control', 'private, max-age=60');
+      res.end(`for ${req.headers.authorization}`);
+    };
+    const cachedFetch = createCachedFetch(options);
+
+    await cachedFetch(`${baseUrl}/me`, { headers: { Authorization: 'Bearer alice' } });
+    const r2 = await cachedFetch(`${baseUrl}/me`, { headers: { Authorization: 'Bearer bob' } });
+
+    expect(requests).toHaveLength(2);
+    expect(await r2.text()).toBe('for Bearer bob');
+    expect(cachedFetch.getCacheStats().keys).toBe(0);
+  });
+
+  test('stores responses to authorized requests only when upstream allows sharing', async () => {
+    respond = (req, res) => {
+      const cacheControl: Record<string, string> = {
+        '/plain': 'max-age=60',
+        '/public': 'public, max-age=60',
+        '/shared': 's-maxage=60',
+        '/revalidated': 'max-age=60, must-revalidate',
+      };
+      res.setHeader('Cache-Control', cacheControl[req.url!]);
+      res.end(`for ${req.headers.authorization}`);
+    };
+    const cachedFetch = createCachedFetch(options);
+    const get = (path: string, user: string) =>
+      cachedFetch(`${baseUrl}${path}`, { headers: { Authorization: `Bearer ${user}` } });
+
+    await get('/plain', 'alice');
+    expect(await (await get('/plain', 'bob')).text()).toBe('for Bearer bob');
+
+    for (const path of ['/public', '/shared', '/revalidated']) {
+      await get(path, 'alice');
+      expect((await get(path, 'bob')).headers.get('cache-status')).toMatch(/hit/);
+    }
+    expect(requests).toHaveLength(5);
+  });
+
+  test('revalidates stale entries with If-None-Match', async () => {
+    let version = 1;
+    respond = (req, res) => {
+      const etag = `"v${version}"`;
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('ETag', etag);
+      if (req.headers['if-none-match'] === etag) {
+        res.statusCode = 304;
+        res.end();
+        return;
+      }
+      res.end(`version ${version}`);
+    };
+    const cachedFetch = createCachedFetch(options);
+
+    await cachedFetch(`${baseUrl}/doc`);
+    const r2 = await cachedFetch(`${baseUrl}/doc`);
+    version = 2;
+    const r3 = await cachedFetch(`${baseUrl}/doc`);
+
+    expect(requests[1].headers['if-none-match']).toBe('"v1"');
+    expect(r2.status).toBe(200);
+    expect(await r2.text()).toBe('version 1');
+    expect(r2.headers.get('cache-status')).toBe('universal-api-cache; fwd=stale; fwd-status=304');
+    expect(await r3.text()).toBe('version 2');
+  });
+
+  test('coalesces concurrent requests for the same URL', async () => {
+    respond = (req, res) => setTimeout(() => res.end('slow'), 20);
+    const cachedFetch = createCachedFetch(options);
+
+    const responses = await Promise.all([
+      cachedFetch(`${baseUrl}/slow`),
+      cachedFetch(`${baseUrl}/slow`),
+    ]);
+
+    expect(requests).toHaveLength(1);
+    expect(await Promise.all(responses.map((r) => r.text()))).toEqual(['slow', 'slow']);
+  });
+
+  test('keeps separate entries per upstream Vary header', async () => {
+    respond = (req, res) => {
+      res.setHeader('Vary', 'Accept-Language');
+      res.end(String(req.headers['accept-language']));
+    };
+    const cachedFetch = createCachedFetch(options);
+    const get = (lang: string) =>
+      cachedFetch(`${baseUrl}/greeting`, { headers: { 'Accept-Language': lang } });
+
+    await get('en');
+    await get('fr');
+    const r3 = await get('en');
+    const r4 = await get('fr');
+
+    expect(requests).toHaveLength(2);
+    expect(await r3.text()).toBe('en');
+    expect(await r4.text()).toBe('fr');
+  });
+
+  test('honors request Cache-Control: no-cache', async () => {
+    let count = 0;
+    respond = (req, res) => res.end(String(++count));
+    const cachedFetch = createCachedFetch(options);
+
+    await cachedFetch(`${baseUrl}/counter`);
+    const r2 = await cachedFetch(`${baseUrl}/counter`, {
+      headers: { 'Cache-Control': 'no-cache' },
+    });
+    const r3 = await cachedFetch(`${baseUrl}/counter`);
+
+    expect(await r2.text()).toBe('2');
+    expect(await r3.text()).toBe('2');
+  });
+});
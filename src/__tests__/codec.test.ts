@@ -0,0 +1,50 @@
+import { decodeCacheValue, encodeCacheValue } from '../store/codec';
+import type { CacheValue } from '../store/memoryStore';
+
+describe('cache value codec', () => {
+  const base = { createdAt: 1700000000000, ttl: 60, statusCode: 200 };
+
+  test('round-trips Buffer payloads with their content type', () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+    const val: CacheValue = { ...base, value: png, headers: { 'content-type': 'image/png' } };
+
+    const decoded = decodeCacheValue<Buffer>(encodeCacheValue(val));
+
+    expect(Buffer.isBuffer(decoded.value)).toBe(true);
+    expect(decoded.value.equals(png)).toBe(true);
+    expect(decoded.headers).toEqual({ 'content-type': 'image/png' });
+  });
+
+  test('keeps strings, objects and nested Dates distinct', () => {
+    const at = new Date('2024-05-01T12:00:00Z');
+    const str = decodeCacheValue(encodeCacheValue({ ...base, value: '{"a":1}' }));
+    const obj = decodeCacheValue<any>(
+      encodeCacheValue({ ...base, value: { a: 1, at, raw: new Uint8Array([1, 2]) } }),
+    );
+
+    expect(str.value).toBe('{"a":1}');
+    expect(obj.value.a).toBe(1);
+    expect(obj.value.at).toBeInstanceOf(Date);
+    expect(obj.value.at.getTime()).toBe(at.getTime());
+    expect(Buffer.isBuffer(obj.value.raw)).toBe(true);
+  });
+
+  test('round-trips payload objects shaped like the tags', () => {
+    const value = {
+      createdAt: { $date: '2024-05-01T12:00:00Z' },
+      data: { $binary: 'AQI=' },
+      escaped: { $$date: 1 },
+      at: new Date('2024-05-01T12:00:00Z'),
+    };
+
+    const decoded = decodeCacheValue<typeof value>(encodeCacheValue({ ...base, value }));
+
+    expect(decoded.value).toEqual(value);
+    expect(decoded.value.at).toBeInstanceOf(Date);
+  });
+
+  test('decodes entries written as plain JSON', () => {
+    const legacy = JSON.stringify({ ...base, value: { list: [1, 2] } });
+    expect(decodeCacheValue(legacy).value).toEqual({ list: [1, 2] });
+  });
+});
@@ -0,0 +1,79 @@
+import express from 'express';
+import request from 'supertest';
+
+import { apiCache } from '../middleware';
+import { MemoryStore } from '../store/memoryStore';
+import { acceptsEncoding, compressCacheValue, decompressBody } from '../utils/compression';
+
+describe('compression utils', () => {
+  test('parses Accept-Encoding', () => {
+    expect(acceptsEncoding('gzip, deflate, br', 'br')).toBe(true);
+    expect(acceptsEncoding('gzip;q=0, *', 'gzip')).toBe(false);
+    expect(acceptsEncoding('*;q=0.5', 'br')).toBe(true);
+    expect(acceptsEncoding('identity', 'gzip')).toBe(false);
+    expect(acceptsEncoding(undefined, 'gzip')).toBe(false);
+  });
+
+  test.each(['gzip', 'br'] as const)(
+    'round-trips %s entries above the threshold',
+    async (encoding) => {
+      const value = { items: Array.from({ length: 200 }, (_, i) => ({ id: i })) };
+      const entry = await compressCacheValue({ value, createdAt: 0, ttl: 60 }, { encoding });
+
+      expect(entry.encoding).toBe(encoding);
+      expect(entry.headers?.['content-type']).toBe('application/json; charset=utf-8');
+      expect(JSON.parse((await decompressBody(entry)).toString())).toEqual(value);
+    },
+  );
+
+  test('leaves small payloads uncompressed', async () => {
+    const entry = await compressCacheValue({ value: 'tiny', createdAt: 0, ttl: 60 }, {});
+    expect(entry.encoding).toBeUndefined();
+    expect(entry.value).toBe('tiny');
+  });
+});
+
+describe('apiCache with compression', () => {
+  const items = Array.from({ length: 100 }, (_, i) => ({ id: i, name: `item ${i}` }));
+
+  function createApp() {
+    const app = express();
+    app.use(
+      apiCache({ ttl: 30, useMemory: true, useRedis: false, compression: { threshold: 100 } }),
+    );
+    app.get('/items', (req, res) => res.json(items));
+    return app;
+  }
+
+  test('serves stored gzip bytes to clients that accept them', async () => {
+    const app = createApp();
+
+    await request(app).get('/items');
+    const r2 = await request(app).get('/items').set('Accept-Encoding', 'gzip');
+
+    expect(r2.headers['x-cache']).toBe('HIT');
+    expect(r2.headers['content-encoding']).toBe('gzip');
+    expect(r2.headers['vary']).toMatch(/Accept-Encoding/);
+    expect(r2.headers['content-type']).toMatch(/application\/json/);
+    expect(r2.body).toEqual(items);
+  });
+
+  test('decompresses for clients that do not accept the encoding', async () => {
+    const app = createApp();
+
+    await request(app).get('/items');
+    const r2 = await request(app).get('/items').set('Accept-Encoding', 'identity');
+
+    expect(r2.headers['content-encoding']).toBeUndefined();
+    expect(r2.body).toEqual(items);
+  });
+
+  test('stores compressed entries', async () => {
+    const store = new MemoryStore();
+    const entry = await compressCacheValue({ value: items, createdAt: 0, ttl: 60 }, {});
+    await store.set('k', entry, 60);
+
+    const stored = await store.get<Buffer>('k');
+    expect(stored?.value.length).toBeLessThan(JSON.stringify(items).length);
+  });
+});
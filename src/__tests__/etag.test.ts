@@ -0,0 +1,91 @@
+import express from 'express';
+import request from 'supertest';
+
+import { apiCache } from '../middleware';
+import { computeEtag, isNotModified } from '../utils/etag';
+
+describe('etag', () => {
+  test('computes a stable strong ETag', () => {
+    expect(computeEtag({ b: 1, a: 2 })).toBe(computeEtag({ a: 2, b: 1 }));
+    expect(computeEtag('x')).toMatch(/^"[a-f0-9]{64}"$/);
+  });
+
+  test('evaluates conditional headers', () => {
+    const etag = computeEtag('x');
+    const createdAt = Date.parse('2024-01-01T00:00:00.500Z');
+    expect(isNotModified({ headers: { 'if-none-match': `"a", W/${etag}` } }, etag, createdAt)).toBe(
+      true,
+    );
+    expect(isNotModified({ headers: { 'if-none-match': '"a"' } }, etag, createdAt)).toBe(false);
+    expect(
+      isNotModified(
+        { headers: { 'if-modified-since': 'Mon, 01 Jan 2024 00:00:00 GMT' } },
+        etag,
+        createdAt,
+      ),
+    ).toBe(true);
+    expect(
+      isNotModified(
+        { headers: { 'if-modified-since': 'Sun, 31 Dec 2023 23:59:59 GMT' } },
+        etag,
+        createdAt,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe('apiCache conditional requests', () => {
+  function createApp() {
+    const app = express();
+    app.use(apiCache({ ttl: 30, useMemory: true, useRedis: false }));
+    let calls = 0;
+    app.get('/items', (req, res) => {
+      calls++;
+      res.json({ items: [1, 2, 3] });
+    });
+    return { app, calls: () => calls };
+  }
+
+  test('answers If-None-Match with 304 from the cache', async () => {
+    const { app, calls } = createApp();
+
+    const r1 = await request(app).get('/items');
+    const etag = r1.headers['etag'];
+    expect(etag).toBe(computeEtag({ items: [1, 2, 3] }));
+
+    const r2 = await request(app).get('/items').set('If-None-Match', etag);
+    expect(r2.status).toBe(304);
+    expect(r2.headers['x-cache']).toBe('HIT');
+    expect(r2.text).toBe('');
+    expect(calls()).toBe(1);
+
+    const r3 = await request(app).get('/items').set('If-None-Match', '"other"');
+    expect(r3.status).toBe(200);
+    expect(r3.body).toEqual({ items: [1, 2, 3] });
+  });
+
+  test('answers If-Modified-Since using the entry creation time', async () => {
+    const { app } = createApp();
+
+    await request(app).get('/items');
+    const r2 = await request(app).get('/items');
+    const lastModified = r2.headers['last-modified'];
+    expect(lastModified).toBeDefined();
+
+    const r3 = await request(app).get('/items').set('If-Modified-Since', lastModified);
+    expect(r3.status).toBe(304);
+  });
+
+  test('sends Last-Modified with the first response', async () => {
+    const { app, calls } = createApp();
+
+    const r1 = await request(app).get('/items');
+    const lastModified = r1.headers['last-modified'];
+    expect(lastModified).toBeDefined();
+
+    const r2 = await request(app).get('/items').set('If-Modified-Since', lastModified);
+    expect(r2.status).toBe(304);
+    expect(r2.headers['last-modified']).toBe(lastModified);
+    expect(calls()).toBe(1);
+  });
+});
@@ -0,0 +1,113 @@
+import Fastify from 'fastify';
+
+import { fastifyApiCache } from '../adapters/fastify';
+
+describe('fastifyApiCache', () => {
+  function buildApp(options = {}) {
+    const app = Fastify();
+    const cache = fastifyApiCache({ ttl: 30, useMemory: true, useRedis: false, ...options });
+    app.register(cache);
+    return { app, cache };
+  }
+
+  test('serves repeated GETs from cache', async () => {
+    const { app } = buildApp();
+    let calls = 0;
+    app.get('/users', async () => {
+      calls++;
+      return [{ id: 1 }];
+    });
+
+    const r1 = await app.inject({ method: 'GET', url: '/users' });
+    const r2 = await app.inject({ method: 'GET', url: '/users' });
+
+    expect(calls).toBe(1);
+    expect(r1.headers['x-cache']).toBeUndefined();
+    expect(r2.headers['x-cache']).toBe('HIT');
+    expect(r2.json()).toEqual([{ id: 1 }]);
+    expect(r2.headers['cache-status']).toMatch(/^universal-api-cache; hit;/);
+  });
+
+  test('replays status, headers and ETag', async () => {
+    const { app } = buildApp();
+    app.get('/created', async (request, reply) => {
+      reply.code(201).header('link', '</next>; rel="next"');
+      return 'made';
+    });
+
+    const r1 = await app.inject({ method: 'GET', url: '/created' });
+    const r2 = await app.inject({ method: 'GET', url: '/created' });
+    const r3 = await app.inject({
+      method: 'GET',
+      url: '/created',
+      headers: { 'if-none-match': r1.headers.etag as string },
+    });
+
+    expect(r1.headers.etag).toBeDefined();
+    expect(r1.headers['last-modified']).toBeDefined();
+    expect(r2.statusCode).toBe(201);
+    expect(r2.body).toBe('made');
+    expect(r2.headers.link).toBe('</next>; rel="next"');
+    expect(r2.headers.etag).toBe(r1.headers.etag);
+    expect(r3.statusCode).toBe(304);
+  });
+
+  test('does not cache error responses', async () => {
+    const { app } = buildApp();
+    let calls = 0;
+    app.get('/broken', async () => {
+      calls++;
+      throw new Error('boom');
+    });
+
+    await app.inject({ method: 'GET', url: '/broken' });
+    const r2 = await app.inject({ method: 'GET', url: '/broken' });
+
+    expect(calls).toBe(2);
+    expect(r2.statusCode).toBe(500);
+  });
+
+  test('invalidates cached entries on writes', async () => {
+    const { app } = buildApp();
+    let version = 1;
+    app.get('/items', async () => ({ version }));
+    app.post('/items', async () => {
+      version++;
+      return { ok: true };
+    });
+
+    await app.inject({ method: 'GET', url: '/items' });
+    await app.inject({ method: 'POST', url: '/items', payload: { name: 'x' } });
+    const r3 = await app.inject({ method: 'GET', url: '/items' });
+
+    expect(r3.headers['cache-status']).toBe('universal-api-cache; fwd=miss');
+    expect(r3.json()).toEqual({ version: 2 });
+  });
+
+  test('refreshes stale entries in the background', async () => {
+    const { app } = buildApp({ ttl: 0, staleWhileRevalidate: true });
+    let version = 0;
+    app.get('/data', async () => ({ version: ++version }));
+
+    await app.inject({ method: 'GET', url: '/data' });
+    const r2 = await app.inject({ method: 'GET', url: '/data' });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const r3 = await app.inject({ method: 'GET', url: '/data' });
+
+    expect(r2.headers['x-cache']).toBe('HIT');
+    expect(r2.json()).toEqual({ version: 1 });
+    expect(r3.json()).toEqual({ version: 2 });
+  });
+
+  test('exposes clearCache and getCacheStats', async () => {
+    const { app, cache } = buildApp();
+    app.get('/a', async () => ({ a: 1 }));
+
+    await app.inject({ method: 'GET', url: '/a' });
+    expect(cache.getCacheStats()).toMatchObject({ misses: 1, keys: 1 });
+
+    await cache.clearCache();
+    const r2 = await app.inject({ method: 'GET', url: '/a' });
+    expect(r2.headers['cache-status']).toBe('universal-api-cache; fwd=miss');
+  });
+});
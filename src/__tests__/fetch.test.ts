@@ -0,0 +1,129 @@
+import { withApiCache } from '../adapters/fetch';
+
+describe('withApiCache', () => {
+  const options = { ttl: 30, useMemory: true, useRedis: false };
+
+  test('replays cached responses with status and headers', async () => {
+    let calls = 0;
+    const handler = withApiCache(async () => {
+      calls++;
+      return new Response(JSON.stringify([{ id: 1 }]), {
+        status: 203,
+        headers: { 'content-type': 'application/json', link: '</next>; rel="next"' },
+      });
+    }, options);
+
+    const r1 = await handler(new Request('http://localhost/users?b=2&a=1'));
+    expect(await r1.json()).toEqual([{ id: 1 }]);
+    expect(r1.headers.get('cache-status')).toBe('universal-api-cache; fwd=miss');
+
+    const r2 = await handler(new Request('http://localhost/users?a=1&b=2'));
+    expect(calls).toBe(1);
+    expect(r2.status).toBe(203);
+    expect(r2.headers.get('x-cache')).toBe('HIT');
+    expect(r2.headers.get('content-type')).toBe('application/json');
+    expect(r2.headers.get('link')).toBe('</next>; rel="next"');
+    expect(await r2.json()).toEqual([{ id: 1 }]);
+
+    const r3 = await handler(
+      new Request('http://localhost/users?a=1&b=2', {
+        headers: { 'if-none-match': r2.headers.get('etag') as string },
+      }),
+    );
+    expect(r3.status).toBe(304);
+  });
+
+  test('sends ETag and Last-Modified with fresh responses', async () => {
+    const handler = withApiCache(async () => Response.json({ id: 1 }), options);
+
+    const r1 = await handler(new Request('http://localhost/users/1'));
+    const etag = r1.headers.get('etag');
+    expect(etag).toMatch(/^"[0-9a-f]+"$/);
+    expect(r1.headers.get('last-modified')).toBeTruthy();
+    expect(await r1.json()).toEqual({ id: 1 });
+
+    const r2 = await handler(
+      new Request('http://localhost/users/1', { headers: { 'if-none-match': etag as string } }),
+    );
+    expect(r2.status).toBe(304);
+  });
+
+  test('coalesces concurrent misses', async () => {
+    let calls = 0;
+    const handler = withApiCache(async () => {
+      calls++;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return new Response('slow');
+    }, options);
+
+    const responses = await Promise.all([
+      handler(new Request('http://localhost/slow')),
+      handler(new Request('http://localhost/slow')),
+    ]);
+
+    expect(calls).toBe(1);
+    expect(await Promise.all(responses.map((r) => r.text()))).toEqual(['slow', 'slow']);
+  });
+
+  test('keys POST bodies and lets the handler read the original body', async () => {
+    const handler = withApiCache(
+      async (request: Request) => {
+        const { query } = await request.json();
+        return Response.json({ query });
+      },
+      { ...options, methods: ['GET', 'POST'], cachePostPredicate: () => true },
+    );
+    const search = (query: string) =>
+      handler(
+        new Request('http://localhost/search', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ query }),
+        }),
+      );
+
+    await (await search('a')).text();
+    const r2 = await search('a');
+    const r3 = await search('b');
+
+    expect(r2.headers.get('x-cache')).toBe('HIT');
+    expect(await r2.json()).toEqual({ query: 'a' });
+    expect(r3.headers.get('x-cache')).toBeNull();
+    expect(await r3.json()).toEqual({ query: 'b' });
+  });
+
+  test('invalidates on writes and skips error responses', async () => {
+    let version = 1;
+    const handler = withApiCache(async (request: Request) => {
+      if (request.method === 'DELETE') {
+        version++;
+        return new Response(null, { status: 204 });
+      }
+      if (request.url.endsWith('/broken')) return new Response('boom', { status: 500 });
+      return Response.json({ version });
+    }, options);
+
+    await (await handler(new Request('http://localhost/items'))).text();
+    await handler(new Request('http://localhost/items', { method: 'DELETE' }));
+    const r3 = await handler(new Request('http://localhost/items'));
+    expect(await r3.json()).toEqual({ version: 2 });
+
+    await (await handler(new Request('http://localhost/broken'))).text();
+    const r5 = await handler(new Request('http://localhost/broken'));
+    expect(r5.headers.get('x-cache')).toBeNull();
+  });
+
+  test('does not cache bodies larger than maxPayloadSize', async () => {
+    const handler = withApiCache(async () => new Response('x'.repeat(100)), {
+      ...options,
+      maxPayloadSize: 10,
+    });
+
+    const r1 = await handler(new Request('http://localhost/big'));
+    expect(r1.headers.get('etag')).toBeNull();
+    expect(await r1.text()).toBe('x'.repeat(100));
+    const r2 = await handler(new Request('http://localhost/big'));
+    expect(r2.headers.get('x-cache')).toBeNull();
+    expect(handler.getCacheStats().keys).toBe(0);
+  });
+});
@@ -0,0 +1,245 @@
+import express from 'express';
+import request from 'supertest';
+
+import { apiCache } from '../middleware';
+import {
+  getGraphQLOperations,
+  KnownDocuments,
+  normalizeGraphQLQuery,
+  parseGraphQLRequest,
+} from '../utils/graphql';
+import { sha256 } from '../utils/hash';
+
+describe('GraphQL helpers', () => {
+  test('normalizes whitespace, commas and comments', () => {
+    const a = normalizeGraphQLQuery('query GetUser($id: ID!) {\n  user(id: $id) { id, name }\n}');
+    const b = normalizeGraphQLQuery(
+      '# fetch a user\nquery GetUser( $id : ID! ) { user ( id: $id ) { id name } }',
+    );
+    expect(a).toBe(b);
+    expect(normalizeGraphQLQuery('{ search(q: "a, # b") }')).toBe('{ search ( q : "a, # b" ) }');
+  });
+
+  test('finds operation types and names', () => {
+    const doc = `
+      fragment UserFields on User { id }
+      query GetUser { user { ...UserFields } }
+      mutation RenameUser($id: ID!) { renameUser(id: $id) { id } }
+    `;
+    expect(getGraphQLOperations(doc)).toEqual([
+      { operationType: 'query', operationName: 'GetUser' },
+      { operationType: 'mutation', operationName: 'RenameUser' },
+    ]);
+    expect(getGraphQLOperations('{ me { id } }')).toEqual([{ operationType: 'query' }]);
+  });
+
+  test('remembers a bounded number of persisted query operations', () => {
+    const known = new KnownDocuments(2);
+    const send = (query: string, variables = {}) =>
+      parseGraphQLRequest(
+        {
+          method: 'POST',
+          body: { query, variables, extensions: { persistedQuery: { sha256Hash: sha256(query) } } },
+        },
+        known,
+      );
+
+    send('query A { a }', { secret: 1 });
+    send('query B { b }');
+    expect(known.get(sha256('query A { a }'))).toEqual({
+      operationType: 'query',
+      operationName: 'A',
+    });
+    send('mutation C { c }');
+
+    expect(known.size).toBe(2);
+    expect(known.get(sha256('query B { b }'))).toBeUndefined();
+    expect(known.get(sha256('query A { a }'))).toBeDefined();
+    expect(known.get(sha256('mutation C { c }'))).toEqual({
+      operationType: 'mutation',
+      operationName: 'C',
+    });
+  });
+});
+
+describe('GraphQL mode', () => {
+  function buildApp(options = {}) {
+    const app = express();
+    app.use(express.json());
+    const calls: string[] = [];
+    const users: Record<string, string> = { '1': 'Ada', '2': 'Grace' };
+
+    app.use(
+      apiCache({
+        ttl: 30,
+        useMemory: true,
+        useRedis: false,
+        graphql: { mutations: { RenameUser: ['User:{id}'] } },
+        ...options,
+      }),
+    );
+    // Documents the server already has for persisted query hashes
+    const persisted: Record<string, string> = Object.fromEntries(
+      [getUser, renameUser].map((query) => [sha256(query), query]),
+    );
+    app.all('/graphql', (req, res) => {
+      const params = req.method === 'GET' ? req.query : req.body;
+      const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+      const variables = parse(params.variables);
+      const hash = parse(params.extensions)?.persistedQuery?.sha256Hash;
+      calls.push(String(params.operationName ?? params.query));
+      if (String(params.query ?? persisted[hash] ?? '').includes('mutation')) {
+        users[variables.id] = variables.name;
+        return res.json({ data: { renameUser: { __typename: 'User', id: variables.id } } });
+      }
+      if (variables?.id === 'missing') return res.json({ errors: [{ message: 'not found' }] });
+      res.json({
+        data: { user: { __typename: 'User', id: variables.id, name: users[variables.id] } },
+      });
+    });
+    return { app, calls };
+  }
+
+  const getUser = 'query GetUser($id: ID!) { user(id: $id) { id name } }';
+  const renameUser =
+    'mutation RenameUser($id: ID!, $name: String!) { renameUser(id: $id, name: $name) { id } }';
+
+  test('caches queries regardless of formatting, variable order and transport', async () => {
+    const { app, calls } = buildApp();
+
+    await request(app)
+      .post('/graphql')
+      .send({ query: getUser, variables: { id: '1' } });
+    const reformatted = await request(app)
+      .post('/graphql')
+      .send({
+        query: `query GetUser( $id: ID! ) {\n  user(id: $id) {\n    id,\n    name\n  }\n}`,
+        variables: { id: '1' },
+      });
+    const overGet = await request(app)
+      .get('/graphql')
+      .query({ query: getUser, variables: JSON.stringify({ id: '1' }) });
+
+    expect(calls).toHaveLength(1);
+    expect(reformatted.headers['x-cache']).toBe('HIT');
+    expect(overGet.headers['x-cache']).toBe('HIT');
+    expect(overGet.body.data.user.name).toBe('Ada');
+  });
+
+  test('does not cache errors or mutations', async () => {
+    const { app, calls } = buildApp();
+
+    await request(app)
+      .post('/graphql')
+      .send({ query: getUser, variables: { id: 'missing' } });
+    await request(app)
+      .post('/graphql')
+      .send({ query: getUser, variables: { id: 'missing' } });
+    await request(app)
+      .post('/graphql')
+      .send({ query: renameUser, variables: { id: '3', name: 'x' } });
+    await request(app)
+      .post('/graphql')
+      .send({ query: renameUser, variables: { id: '3', name: 'x' } });
+
+    expect(calls).toHaveLength(4);
+  });
+
+  test('mutations invalidate the types and ids they declare', async () => {
+    const { app } = buildApp();
+    const fetchUser = (id: string) =>
+      request(app).post('/graphql').send({ query: getUser, variables: { id } });
+
+    await fetchUser('1');
+    await fetchUser('2');
+    await request(app)
+      .post('/graphql')
+      .send({
+        query: renameUser,
+        operationName: 'RenameUser',
+        variables: { id: '1', name: 'Augusta' },
+      });
+
+    const first = await fetchUser('1');
+    const second = await fetchUser('2');
+    expect(first.headers['x-cache']).toBeUndefined();
+    expect(first.body.data.user.name).toBe('Augusta');
+    expect(second.headers['x-cache']).toBe('HIT');
+  });
+
+  test('supports persisted query hashes', async () => {
+    const { app, calls } = buildApp();
+    const extensions = { persistedQuery: { version: 1, sha256Hash: sha256(getUser) } };
+
+    // Hash-only requests are passed through until the document has been seen
+    await request(app)
+      .post('/graphql')
+      .send({ extensions, variables: { id: '1' } });
+    await request(app)
+      .post('/graphql')
+      .send({ query: getUser, extensions, variables: { id: '1' } });
+    const hashOnly = await request(app)
+      .post('/graphql')
+      .send({ extensions, operationName: 'GetUser', variables: { id: '1' } });
+
+    expect(calls).toHaveLength(2);
+    expect(hashOnly.headers['x-cache']).toBe('HIT');
+  });
+
+  test('hash-only mutations this instance has not seen invalidate their declared tags', async () => {
+    const { app } = buildApp();
+    const fetchUser = (id: string) =>
+      request(app).post('/graphql').send({ query: getUser, variables: { id } });
+    const extensions = { persistedQuery: { version: 1, sha256Hash: sha256(renameUser) } };
+
+    await fetchUser('1');
+    await fetchUser('2');
+    await request(app)
+      .post('/graphql')
+      .send({ extensions, operationName: 'RenameUser', variables: { id: '1', name: 'Augusta' } });
+
+    const first = await fetchUser('1');
+    const second = await fetchUser('2');
+    expect(first.headers['x-cache']).toBeUndefined();
+    expect(first.body.data.user.name).toBe('Augusta');
+    expect(second.headers['x-cache']).toBe('HIT');
+  });
+
+  test('unnamed hash-only operations this instance has not seen are treated as writes', async () => {
+    const { app } = buildApp();
+    const fetchUser = () =>
+      request(app)
+        .post('/graphql')
+        .send({ query: getUser, variables: { id: '1' } });
+    const extensions = { persistedQuery: { version: 1, sha256Hash: sha256(renameUser) } };
+
+    await fetchUser();
+    await request(app)
+      .post('/graphql')
+      .send({ extensions, variables: { id: '1', name: 'Augusta' } });
+
+    const after = await fetchUser();
+    expect(after.headers['x-cache']).toBeUndefined();
+    expect(after.body.data.user.name).toBe('Augusta');
+  });
+
+  test('ignores persisted query hashes that do not match the query', async () => {
+    const { app, calls } = buildApp();
+    const forged = 'query GetUser($id: ID!) { user(id: $id) { id name secret } }';
+    const extensions = { persistedQuery: { version: 1, sha256Hash: sha256(getUser) } };
+
+    await request(app)
+      .post('/graphql')
+      .send({ query: forged, extensions, variables: { id: '1' } });
+    const real = await request(app)
+      .post('/graphql')
+      .send({ query: getUser, extensions, variables: { id: '1' } });
+    const hashOnly = await request(app)
+      .post('/graphql')
+      .send({ extensions, operationName: 'GetUser', variables: { id: '1' } });
+
+    expect(calls).toHaveLength(2);
+    expect(real.headers['x-cache']).toBeUndefined();
+    expect(hashOnly.headers['x-cache']).toBe('HIT');
+  });
+});
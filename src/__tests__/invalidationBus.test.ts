@@ -0,0 +1,165 @@
+import express from 'express';
+import request from 'supertest';
+
+import { createCache } from '../cache';
+import { apiCache } from '../middleware';
+import { MemoryStore } from '../store/memoryStore';
+import type { InvalidationTransport } from '../utils/invalidationBus';
+
+/**
+ * In-process stand-in for Redis pub/sub: every subscriber receives every message
+ */
+function createNetwork() {
+  const subscribers: {
+    onMessage: (message: string) => void;
+    onStatus: (connected: boolean) => void;
+  }[] = [];
+  const published: string[] = [];
+  let connected = true;
+
+  return {
+    published,
+    transport(): InvalidationTransport {
+      return {
+        async publish(message) {
+          if (!connected) throw new Error('bus down');
+          published.push(message);
+          subscribers.forEach((s) => s.onMessage(message));
+        },
+        async subscribe(onMessage, onStatus) {
+          subscribers.push({ onMessage, onStatus });
+          onStatus(connected);
+        },
+      };
+    },
+    setConnected(value: boolean) {
+      connected = value;
+      subscribers.forEach((s) => s.onStatus(value));
+    },
+  };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('invalidation bus', () => {
+  const logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+  function createReplicas(network: ReturnType<typeof createNetwork>, count = 2) {
+    return Array.from({ length: count }, () =>
+      createCache({ ttl: 60, logger, invalidationBus: { transport: network.transport() } }),
+    );
+  }
+
+  test('clearCache on one instance clears the local store of the others', async () => {
+    const network = createNetwork();
+    const [a, b] = createReplicas(network);
+    const load = jest.fn(async () => 'value');
+
+    await a.wrap('memo:config', load);
+    await b.wrap('memo:config', load);
+    await a.clearCache('memo:*');
+    await flush();
+    await b.wrap('memo:config', load);
+
+    expect(load).toHaveBeenCalledTimes(3);
+    expect(b.getCacheStats().keys).toBe(1);
+  });
+
+  test('tag invalidations reach the other instances', async () => {
+    const network = createNetwork();
+    const [a, b] = createReplicas(network);
+
+    await b.wrap('memo:user:1', async () => 'user', { tags: ['user:1'] });
+    await b.wrap('memo:user:2', async () => 'user', { tags: ['user:2'] });
+    await a.invalidateTags(['user:1']);
+    await flush();
+
+    expect(b.getCacheStats().keys).toBe(1);
+  });
+
+  test('instances do not replay or republish their own and replayed messages', async () => {
+    const network = createNetwork();
+    const [a, b, c] = createReplicas(network, 3);
+
+    await a.wrap('memo:x', async () => 1);
+    await a.clearCache('memo:other');
+    await flush();
+
+    expect(network.published).toHaveLength(1);
+    expect(a.getCacheStats().keys).toBe(1);
+    expect(b.getCacheStats().keys + c.getCacheStats().keys).toBe(0);
+  });
+
+  test('pattern rules invalidate matching entries on every instance', async () => {
+    const network = createNetwork();
+    let version = 0;
+    const replica = () => {
+      const app = express();
+      app.use(express.json());
+      app.use(
+        apiCache({
+          ttl: 60,
+          logger,
+          invalidationBus: { transport: network.transport() },
+          invalidation: {
+            invalidationRules: [
+              {
+                methods: ['PUT'],
+                pathPattern: '/users/{id}',
+                invalidatePatterns: ['GET:/users*'],
+                respectUserScope: false,
+              },
+            ],
+          },
+        }),
+      );
+      app.get('/users/:id', (req, res) => res.json({ id: req.params.id, version }));
+      app.put('/users/:id', (req, res) => {
+        version++;
+        res.json({ ok: true });
+      });
+      return app;
+    };
+    const [a, b] = [replica(), replica()];
+
+    await request(b).get('/users/1').expect(200);
+    expect((await request(b).get('/users/1')).headers['x-cache']).toBe('HIT');
+
+    await request(a).put('/users/1').send({}).expect(200);
+    await flush();
+
+    const res = await request(b).get('/users/1');
+    expect(res.headers['x-cache']).not.toBe('HIT');
+    expect(res.body.version).toBe(1);
+  });
+
+  test('local entries get a short ttl while the bus is down and are dropped on reconnect', async () => {
+    const network = createNetwork();
+    const store = new MemoryStore();
+    const set = jest.spyOn(store, 'set');
+    const cache = createCache({
+      ttl: 60,
+      logger,
+      stores: [store],
+      invalidationBus: { transport: network.transport(), fallbackTtl: 2 },
+    });
+
+    await cache.wrap('memo:a', async () => 'a');
+    expect(set).toHaveBeenLastCalledWith('memo:a', expect.anything(), 60);
+
+    network.setConnected(false);
+    await flush();
+    expect(cache.getCacheStats().keys).toBe(0);
+
+    await cache.wrap('memo:b', async () => 'b');
+    expect(set).toHaveBeenLastCalledWith('memo:b', expect.anything(), 2);
+    // Publishing fails while down; the local invalidation still applies
+    await cache.clearCache('memo:*');
+    expect(cache.getCacheStats().keys).toBe(0);
+
+    await cache.wrap('memo:c', async () => 'c');
+    network.setConnected(true);
+    await flush();
+    expect(cache.getCacheStats().keys).toBe(0);
+  });
+});
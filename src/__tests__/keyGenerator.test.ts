@@ -1,4 +1,4 @@
-import { buildCacheKey, normalizeUrl, sortQueryParams } from '../utils/keyGenerator';
+import { buildCacheKey, normalizeUrl, parseVary, sortQueryParams } from '../utils/keyGenerator';
 
 describe('keyGenerator', () => {
   test('normalizes url and sorts query', () => {
@@ -18,4 +18,23 @@ describe('keyGenerator', () => {
     expect(key.startsWith('POST:/search:q=1:')).toBe(true);
     expect(key.endsWith(':u1')).toBe(true);
   });
+
+  test('includes vary header values in the key', () => {
+    const getUserId = () => undefined;
+    const de: any = { method: 'GET', originalUrl: '/items', headers: { 'accept-language': 'de' } };
+    const en: any = { method: 'GET', originalUrl: '/items', headers: { 'accept-language': 'en' } };
+
+    expect(buildCacheKey(de, { getUserId })).toBe(buildCacheKey(en, { getUserId }));
+
+    const deKey = buildCacheKey(de, { getUserId, varyHeaders: ['Accept-Language'] });
+    const enKey = buildCacheKey(en, { getUserId, varyHeaders: ['accept-language'] });
+    expect(deKey).not.toBe(enKey);
+    expect(deKey.split(':')).toHaveLength(5);
+  });
+
+  test('parses Vary headers', () => {
+    expect(parseVary('Accept-Language, Accept')).toEqual(['accept-language', 'accept']);
+    expect(parseVary('Accept, *')).toBe('*');
+    expect(parseVary(undefined)).toEqual([]);
+  });
 });
@@ -0,0 +1,117 @@
+import Koa from 'koa';
+import request from 'supertest';
+
+import { koaApiCache } from '../adapters/koa';
+
+describe('koaApiCache', () => {
+  function buildApp(handler: Koa.Middleware, options = {}) {
+    const app = new Koa();
+    const cache = koaApiCache({ ttl: 30, useMemory: true, useRedis: false, ...options });
+    app.use(cache);
+    app.use(handler);
+    return { server: app.callback(), cache };
+  }
+
+  test('serves repeated GETs from cache', async () => {
+    let calls = 0;
+    const { server } = buildApp(async (ctx) => {
+      calls++;
+      ctx.body = [{ id: 1 }];
+    });
+
+    const r1 = await request(server).get('/users');
+    const r2 = await request(server).get('/users');
+
+    expect(calls).toBe(1);
+    expect(r1.headers['cache-status']).toBe('universal-api-cache; fwd=miss');
+    expect(r2.headers['x-cache']).toBe('HIT');
+    expect(r2.headers['content-type']).toMatch(/application\/json/);
+    expect(r2.body).toEqual([{ id: 1 }]);
+  });
+
+  test('replays status, headers and ETag', async () => {
+    const { server } = buildApp(async (ctx) => {
+      ctx.status = 201;
+      ctx.set('Link', '</next>; rel="next"');
+      ctx.body = 'made';
+    });
+
+    const r1 = await request(server).get('/created');
+    const r2 = await request(server).get('/created');
+    const r3 = await request(server).get('/created').set('If-None-Match', r1.headers.etag);
+
+    expect(r1.headers.etag).toBeDefined();
+    expect(r1.headers['last-modified']).toBeDefined();
+    expect(r2.status).toBe(201);
+    expect(r2.text).toBe('made');
+    expect(r2.headers.link).toBe('</next>; rel="next"');
+    expect(r2.headers.etag).toBe(r1.headers.etag);
+    expect(r3.status).toBe(304);
+  });
+
+  test('does not cache errors or unmatched routes', async () => {
+    let calls = 0;
+    const { server } = buildApp(async (ctx) => {
+      calls++;
+      if (ctx.path === '/broken') throw new Error('boom');
+    });
+
+    await request(server).get('/broken');
+    const r2 = await request(server).get('/broken');
+    await request(server).get('/missing');
+    const r4 = await request(server).get('/missing');
+
+    expect(calls).toBe(4);
+    expect(r2.status).toBe(500);
+    expect(r4.status).toBe(404);
+  });
+
+  test('invalidates cached entries on writes', async () => {
+    let version = 1;
+    const { server } = buildApp(async (ctx) => {
+      if (ctx.method === 'POST') version++;
+      ctx.body = { version };
+    });
+
+    await request(server).get('/items');
+    await request(server).post('/items').send({ name: 'x' });
+    const r3 = await request(server).get('/items');
+
+    expect(r3.headers['cache-status']).toBe('universal-api-cache; fwd=miss');
+    expect(r3.body).toEqual({ version: 2 });
+  });
+
+  test('refreshes stale entries in the background', async () => {
+    let version = 0;
+    const { server } = buildApp(
+      async (ctx) => {
+        ctx.status = 202;
+        ctx.body = { version: ++version };
+      },
+      { ttl: 0, staleWhileRevalidate: true },
+    );
+
+    await request(server).get('/data');
+    const r2 = await request(server).get('/data');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const r3 = await request(server).get('/data');
+
+    expect(r2.headers['x-cache']).toBe('HIT');
+    expect(r2.body).toEqual({ version: 1 });
+    expect(r3.status).toBe(202);
+    expect(r3.body).toEqual({ version: 2 });
+  });
+
+  test('exposes clearCache and getCacheStats', async () => {
+    const { server, cache } = buildApp(async (ctx) => {
+      ctx.body = { a: 1 };
+    });
+
+    await request(server).get('/a');
+    expect(cache.getCacheStats()).toMatchObject({ misses: 1, keys: 1 });
+
+    await cache.clearCache();
+    const r2 = await request(server).get('/a');
+    expect(r2.headers['cache-status']).toBe('universal-api-cache; fwd=miss');
+  });
+});
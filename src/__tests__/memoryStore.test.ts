@@ -0,0 +1,71 @@
+import express from 'express';
+import request from 'supertest';
+
+import { apiCache } from '../middleware';
+import { MemoryStore, type CacheValue } from '../store/memoryStore';
+
+describe('MemoryStore limits', () => {
+  const entry = (value: unknown): CacheValue => ({ value, createdAt: Date.now(), ttl: 60 });
+
+  test('evicts the least recently used entry above maxEntries', async () => {
+    const store = new MemoryStore({ maxEntries: 2 });
+
+    await store.set('a', entry('a'), 60);
+    await store.set('b', entry('b'), 60);
+    await store.get('a'); // b is now the least recently used
+    await store.set('c', entry('c'), 60);
+
+    expect((await store.keys()).sort()).toEqual(['a', 'c']);
+    expect(store.stats()).toMatchObject({ keys: 2, evictions: 1 });
+  });
+
+  test('evicts until the total size fits maxBytes', async () => {
+    const store = new MemoryStore({ maxBytes: 2500 });
+
+    await store.set('a', entry('x'.repeat(1000)), 60);
+    await store.set('b', entry('x'.repeat(1000)), 60);
+    await store.set('c', entry(Buffer.alloc(1000)), 60);
+
+    expect(await store.keys()).toEqual(['b', 'c']);
+    expect(store.stats().bytes).toBeLessThanOrEqual(2500);
+    expect(store.stats().evictions).toBe(1);
+  });
+
+  test('does not store entries larger than maxBytes', async () => {
+    const store = new MemoryStore({ maxBytes: 500 });
+
+    await store.set('small', entry('ok'), 60);
+    await store.set('huge', entry('x'.repeat(1000)), 60);
+
+    expect(await store.keys()).toEqual(['small']);
+    expect(store.stats().evictions).toBe(0);
+  });
+
+  test('releases the size of deleted, replaced and cleared entries', async () => {
+    const store = new MemoryStore({ maxBytes: 10000 });
+
+    await store.set('a', entry('x'.repeat(1000)), 60);
+    await store.set('a', entry('x'), 60);
+    const replaced = store.stats().bytes;
+    await store.set('b', entry('x'.repeat(1000)), 60);
+    await store.del('b');
+    expect(store.stats().bytes).toBe(replaced);
+    expect(replaced).toBeLessThan(1000);
+
+    await store.clear();
+    expect(store.stats()).toMatchObject({ keys: 0, bytes: 0 });
+  });
+});
+
+test('getCacheStats reports L1 evictions', async () => {
+  const app = express();
+  const cache = apiCache({ ttl: 30, useRedis: false, memory: { maxEntries: 2 } });
+  app.use(cache);
+  app.get('/items', (req, res) => res.json({ page: req.query.page }));
+
+  for (const page of [1, 2, 3, 4]) await request(app).get(`/items?page=${page}`);
+
+  expect(cache.getCacheStats()).toMatchObject({ keys: 2, evictions: 2 });
+  const evicted = await request(app).get('/items?page=1');
+  expect(evicted.headers['x-cache']).toBeUndefined();
+});
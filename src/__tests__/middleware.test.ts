@@ -50,8 +50,30 @@ describe('apiCache middleware', () => {
     const r2 = await request(app).get('/data');
     expect(r2.body.count).toBe(1); // stale served, count should still be 1
     
-    // Verify the stale data was served (handler wasn't called again immediately)
-    expect(count).toBe(1); // Should still be 1, not 2
+    // The handler only runs again in the background refresh
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(count).toBe(2);
+  });
+
+  test('stale-while-revalidate refreshes the entry in the background', async () => {
+    const app = express();
+    const router = express.Router();
+    let version = 0;
+    app.use(apiCache({ ttl: 0, staleWhileRevalidate: true, useMemory: true, useRedis: false }));
+    router.get('/data', (req, res) => {
+      res.status(202).json({ version: ++version });
+    });
+    app.use('/api', router);
+
+    await request(app).get('/api/data');
+    const r2 = await request(app).get('/api/data');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const r3 = await request(app).get('/api/data');
+
+    expect(r2.headers['x-cache']).toBe('HIT');
+    expect(r2.body).toEqual({ version: 1 });
+    expect(r3.status).toBe(202);
+    expect(r3.body).toEqual({ version: 2 });
   });
 
   test('invalidates on POST when enabled', async () => {
@@ -103,4 +125,160 @@ describe('apiCache middleware', () => {
     expect(r1.body.calls).toBe(1);
     expect(r2.body.calls).toBe(1);
   });
+
+  test('replays status code and allowlisted headers on hit', async () => {
+    const app = express();
+    app.use(apiCache({ ttl: 30, useMemory: true, useRedis: false }));
+
+    let calls = 0;
+    app.get('/page', (req, res) => {
+      calls++;
+      res
+        .status(203)
+        .set('Content-Language', 'de')
+        .set('Link', '</page?p=2>; rel="next"')
+        .set('X-Request-Id', `req-${calls}`)
+        .json({ calls });
+    });
+
+    const r1 = await request(app).get('/page');
+    const r2 = await request(app).get('/page');
+
+    expect(calls).toBe(1);
+    expect(r2.status).toBe(203);
+    expect(r2.headers['x-cache']).toBe('HIT');
+    expect(r2.headers['content-language']).toBe('de');
+    expect(r2.headers['link']).toBe(r1.headers['link']);
+    expect(r2.headers['content-type']).toMatch(/application\/json/);
+    expect(r2.headers['x-request-id']).toBeUndefined();
+    expect(r2.body).toEqual({ calls: 1 });
+  });
+
+  test('does not cache non-2xx responses by default', async () => {
+    const app = express();
+    app.use(apiCache({ ttl: 30, useMemory: true, useRedis: false }));
+
+    let calls = 0;
+    app.get('/flaky', (req, res) => {
+      calls++;
+      if (calls === 1) return res.status(500).json({ error: 'boom' });
+      res.json({ calls });
+    });
+
+    const r1 = await request(app).get('/flaky');
+    const r2 = await request(app).get('/flaky');
+    const r3 = await request(app).get('/flaky');
+
+    expect(r1.status).toBe(500);
+    expect(r2.status).toBe(200);
+    expect(r2.body).toEqual({ calls: 2 });
+    expect(r3.body).toEqual({ calls: 2 });
+    expect(calls).toBe(2);
+  });
+
+  test('caches negative responses under negativeTtl', async () => {
+    const app = express();
+    app.use(apiCache({ ttl: 30, negativeTtl: 5, useMemory: true, useRedis: false }));
+
+    let calls = 0;
+    app.get('/missing', (req, res) => {
+      calls++;
+      res.status(404).json({ error: 'not found' });
+    });
+
+    await request(app).get('/missing');
+    const r2 = await request(app).get('/missing');
+
+    expect(calls).toBe(1);
+    expect(r2.status).toBe(404);
+    expect(r2.headers['x-cache']).toBe('HIT');
+  });
+
+  test('shouldCacheResponse can veto storage', async () => {
+    const app = express();
+    app.use(
+      apiCache({
+        ttl: 30,
+        useMemory: true,
+        useRedis: false,
+        shouldCacheResponse: (req, res, body) => !body?.partial,
+      }),
+    );
+
+    let calls = 0;
+    app.get('/report', (req, res) => {
+      calls++;
+      res.json({ partial: true, calls });
+    });
+
+    await request(app).get('/report');
+    const r2 = await request(app).get('/report');
+
+    expect(calls).toBe(2);
+    expect(r2.body.calls).toBe(2);
+  });
+
+  test('keeps separate entries per Vary header value', async () => {
+    const app = express();
+    app.use(apiCache({ ttl: 30, useMemory: true, useRedis: false }));
+
+    let calls = 0;
+    app.get('/greeting', (req, res) => {
+      calls++;
+      res.vary('Accept-Language');
+      res.json({ greeting: req.get('Accept-Language') === 'de' ? 'Hallo' : 'Hello' });
+    });
+
+    const de1 = await request(app).get('/greeting').set('Accept-Language', 'de');
+    const en1 = await request(app).get('/greeting').set('Accept-Language', 'en');
+    const de2 = await request(app).get('/greeting').set('Accept-Language', 'de');
+    const en2 = await request(app).get('/greeting').set('Accept-Language', 'en');
+
+    expect(de1.body.greeting).toBe('Hallo');
+    expect(en1.body.greeting).toBe('Hello');
+    expect(de2.body.greeting).toBe('Hallo');
+    expect(en2.body.greeting).toBe('Hello');
+    expect(de2.headers['x-cache']).toBe('HIT');
+    expect(en2.headers['vary']).toBe('Accept-Language');
+    expect(calls).toBe(2);
+  });
+
+  test('varyHeaders option separates entries up front', async () => {
+    const app = express();
+    app.use(apiCache({ ttl: 30, useMemory: true, useRedis: false, varyHeaders: ['x-tenant-id'] }));
+
+    app.get('/config', (req, res) => res.json({ tenant: req.get('x-tenant-id') }));
+
+    await request(app).get('/config').set('X-Tenant-Id', 'a');
+    const r = await request(app).get('/config').set('X-Tenant-Id', 'b');
+
+    expect(r.body.tenant).toBe('b');
+  });
+
+  test('invalidates tagged entries when a write returns tags', async () => {
+    const app = express();
+    app.use(
+      apiCache({
+        ttl: 30,
+        useMemory: true,
+        useRedis: false,
+        getCacheTags: (req) => (req.path.startsWith('/users') ? ['users'] : undefined),
+        getInvalidationTags: (req) => (req.path === '/admin/reset' ? ['users'] : undefined),
+      }),
+    );
+
+    let count = 0;
+    app.get('/users', (req, res) => res.json({ count: ++count }));
+    app.get('/stats', (req, res) => res.json({ count: ++count }));
+    app.post('/admin/reset', (req, res) => res.json({ ok: true }));
+
+    await request(app).get('/users');
+    await request(app).get('/stats');
+    await request(app).post('/admin/reset');
+    const users = await request(app).get('/users');
+    const stats = await request(app).get('/stats');
+
+    expect(users.headers['x-cache']).toBeUndefined();
+    expect(stats.headers['x-cache']).toBe('HIT');
+  });
 });
@@ -0,0 +1,134 @@
+import { defer, lastValueFrom, of, throwError } from 'rxjs';
+
+import { ApiCacheInterceptor, CacheTags, CacheTtl, NoCache } from '../adapters/nest';
+
+class UsersController {
+  calls = 0;
+
+  @CacheTtl(5)
+  @CacheTags('users')
+  list() {
+    this.calls++;
+    return [{ id: 1 }];
+  }
+
+  @NoCache()
+  live() {
+    this.calls++;
+    return { now: this.calls };
+  }
+
+  @CacheTags('users')
+  resetUsers() {
+    return { ok: true };
+  }
+
+  fail() {
+    this.calls++;
+    throw new Error('boom');
+  }
+}
+
+@CacheTags('posts')
+class PostsController {
+  list() {
+    return [{ id: 'p1' }];
+  }
+}
+
+function createResponse() {
+  const headers: Record<string, any> = {};
+  return {
+    headers,
+    statusCode: 200,
+    setHeader: (name: string, value: any) => {
+      headers[name.toLowerCase()] = value;
+    },
+    getHeader: (name: string) => headers[name.toLowerCase()],
+  };
+}
+
+describe('ApiCacheInterceptor', () => {
+  function call(
+    interceptor: ApiCacheInterceptor,
+    controller: object,
+    method: string,
+    req: Record<string, any>,
+  ) {
+    const handler = (controller as any)[method];
+    const res = createResponse();
+    const context: any = {
+      getType: () => 'http',
+      switchToHttp: () => ({ getRequest: () => req, getResponse: () => res }),
+      getHandler: () => handler,
+      getClass: () => controller.constructor,
+    };
+    const next = { handle: () => defer(() => of(handler.call(controller))) };
+    return lastValueFrom(interceptor.intercept(context, next)).then((body) => ({ body, res }));
+  }
+
+  const get = (url: string) => ({ method: 'GET', url, headers: {} });
+
+  test('caches handler values with the route ttl', async () => {
+    const interceptor = new ApiCacheInterceptor({ ttl: 60, useMemory: true, useRedis: false });
+    const users = new UsersController();
+
+    const r1 = await call(interceptor, users, 'list', get('/users'));
+    const r2 = await call(interceptor, users, 'list', get('/users'));
+
+    expect(users.calls).toBe(1);
+    expect(r1.body).toEqual([{ id: 1 }]);
+    expect(r2.body).toEqual([{ id: 1 }]);
+    expect(r2.res.headers['x-cache']).toBe('HIT');
+    expect(r2.res.headers['cache-status']).toMatch(/; hit; ttl=(4|5); /);
+  });
+
+  test('skips routes marked with @NoCache', async () => {
+    const interceptor = new ApiCacheInterceptor({ ttl: 60, useMemory: true, useRedis: false });
+    const users = new UsersController();
+
+    await call(interceptor, users, 'live', get('/live'));
+    const r2 = await call(interceptor, users, 'live', get('/live'));
+
+    expect(r2.body).toEqual({ now: 2 });
+    expect(interceptor.getCacheStats().keys).toBe(0);
+  });
+
+  test('does not cache errors', async () => {
+    const interceptor = new ApiCacheInterceptor({ ttl: 60, useMemory: true, useRedis: false });
+    const users = new UsersController();
+
+    await expect(call(interceptor, users, 'fail', get('/fail'))).rejects.toThrow('boom');
+    await expect(call(interceptor, users, 'fail', get('/fail'))).rejects.toThrow('boom');
+    expect(users.calls).toBe(2);
+  });
+
+  test('writes invalidate by route tags instead of URL rules', async () => {
+    const interceptor = new ApiCacheInterceptor({ ttl: 60, useMemory: true, useRedis: false });
+    const users = new UsersController();
+    const posts = new PostsController();
+
+    await call(interceptor, users, 'list', get('/users'));
+    await call(interceptor, posts, 'list', get('/posts'));
+    await call(interceptor, users, 'resetUsers', {
+      method: 'POST',
+      url: '/admin/reset',
+      headers: {},
+    });
+
+    const r1 = await call(interceptor, users, 'list', get('/users'));
+    const r2 = await call(interceptor, posts, 'list', get('/posts'));
+
+    expect(users.calls).toBe(2);
+    expect(r1.res.headers['x-cache']).toBeUndefined();
+    expect(r2.res.headers['x-cache']).toBe('HIT');
+  });
+
+  test('passes through non-http contexts', async () => {
+    const interceptor = new ApiCacheInterceptor({ useMemory: true, useRedis: false });
+    const context: any = { getType: () => 'rpc' };
+    const failing = { handle: () => throwError(() => new Error('rpc')) };
+
+    await expect(lastValueFrom(interceptor.intercept(context, failing))).rejects.toThrow('rpc');
+  });
+});
@@ -0,0 +1,137 @@
+import http from 'http';
+import request from 'supertest';
+
+import { httpApiCache, type NodeHandler } from '../adapters/node';
+
+describe('httpApiCache', () => {
+  const options = { ttl: 30, useMemory: true, useRedis: false };
+
+  function serve(handler: NodeHandler, overrides = {}) {
+    const cached = httpApiCache(handler, { ...options, ...overrides });
+    return { server: http.createServer(cached), cached };
+  }
+
+  test('caches responses written with writeHead/write/end', async () => {
+    let calls = 0;
+    const { server } = serve((req, res) => {
+      calls++;
+      res.writeHead(201, { 'Content-Type': 'application/json', Link: '</next>; rel="next"' });
+      res.write('[{"id"');
+      res.end(':1}]');
+    });
+
+    const r1 = await request(server).get('/users');
+    const r2 = await request(server).get('/users');
+
+    expect(calls).toBe(1);
+    expect(r1.headers['cache-status']).toBe('universal-api-cache; fwd=miss');
+    expect(r2.status).toBe(201);
+    expect(r2.headers['x-cache']).toBe('HIT');
+    expect(r2.headers['content-type']).toBe('application/json');
+    expect(r2.headers.link).toBe('</next>; rel="next"');
+    expect(r2.body).toEqual([{ id: 1 }]);
+  });
+
+  test('sets an ETag on misses and answers conditional requests', async () => {
+    const { server } = serve((req, res) => res.end('hello'));
+
+    const r1 = await request(server).get('/greeting');
+    const r2 = await request(server).get('/greeting').set('If-None-Match', r1.headers.etag);
+
+    expect(r1.headers.etag).toBeDefined();
+    expect(r1.headers['last-modified']).toBeDefined();
+    expect(r2.status).toBe(304);
+  });
+
+  test('coalesces concurrent misses', async () => {
+    let calls = 0;
+    const { server } = serve((req, res) => {
+      calls++;
+      setTimeout(() => res.end('slow'), 20);
+    });
+    server.listen(0);
+    try {
+      const [r1, r2] = await Promise.all([
+        request(server).get('/slow'),
+        request(server).get('/slow'),
+      ]);
+      expect(calls).toBe(1);
+      expect([r1.text, r2.text]).toEqual(['slow', 'slow']);
+    } finally {
+      server.close();
+    }
+  });
+
+  test('parses bodies for POST keys and exposes them to the handler', async () => {
+    const { server } = serve(
+      (req: any, res) => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ query: req.body.query, raw: req.rawBody.length > 0 }));
+      },
+      { methods: ['GET', 'POST'], cachePostPredicate: () => true },
+    );
+
+    await request(server).post('/search').send({ query: 'a' });
+    const r2 = await request(server).post('/search').send({ query: 'a' });
+    const r3 = await request(server).post('/search').send({ query: 'b' });
+
+    expect(r2.headers['x-cache']).toBe('HIT');
+    expect(r2.body).toEqual({ query: 'a', raw: true });
+    expect(r3.headers['x-cache']).toBeUndefined();
+    expect(r3.body).toEqual({ query: 'b', raw: true });
+  });
+
+  test('replays consumed bodies to handlers that read the request stream', async () => {
+    const { server } = serve((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => res.end(`${req.method} ${req.url} ${body}`));
+    });
+
+    const put = await request(server).put('/items/1').send({ name: 'x' });
+    const post = await request(server).post('/items').send('plain');
+
+    expect(put.text).toBe('PUT /items/1 {"name":"x"}');
+    expect(post.text).toBe('POST /items plain');
+  });
+
+  test('invalidates on writes and skips error responses', async () => {
+    let version = 1;
+    const { server } = serve((req, res) => {
+      if (req.method === 'PUT') version++;
+      if (req.url === '/broken') res.statusCode = 500;
+      res.end(String(version));
+    });
+
+    await request(server).get('/items');
+    await request(server).put('/items').send({ name: 'x' });
+    const r3 = await request(server).get('/items');
+    await request(server).get('/broken');
+    const r5 = await request(server).get('/broken');
+
+    expect(r3.text).toBe('2');
+    expect(r3.headers['cache-status']).toBe('universal-api-cache; fwd=miss');
+    expect(r5.headers['x-cache']).toBeUndefined();
+  });
+
+  test('refreshes stale entries in the background', async () => {
+    let version = 0;
+    const { server } = serve(
+      (req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end(String(++version));
+      },
+      { ttl: 0, staleWhileRevalidate: true },
+    );
+
+    await request(server).get('/data');
+    const r2 = await request(server).get('/data');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const r3 = await request(server).get('/data');
+
+    expect(r2.headers['x-cache']).toBe('HIT');
+    expect(r2.text).toBe('1');
+    expect(r3.text).toBe('2');
+    expect(r3.headers['content-type']).toBe('text/plain');
+  });
+});
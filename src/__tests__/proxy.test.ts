@@ -0,0 +1,179 @@
+import fs from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+
+import request from 'supertest';
+
+import { parseProxyArgs } from '../cli';
+import { createCachingProxy } from '../proxy';
+
+describe('createCachingProxy', () => {
+  let upstream: http.Server;
+  let upstreamUrl: string;
+  let received: {
+    method?: string;
+    url?: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+  }[];
+  let items: string[];
+
+  beforeAll(async () => {
+    upstream = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ method: req.method, url: req.url, headers: req.headers, body });
+        if (req.method === 'POST') {
+          items.push(JSON.parse(body).name);
+          res.writeHead(201, { 'Content-Type': 'application/json' });
+          res.end(body);
+          return;
+        }
+        // Streamed in chunks, the way a large upstream response arrives
+        res.writeHead(200, { 'Content-Type': 'application/json', 'X-Upstream': 'yes' });
+        res.write('[');
+        setTimeout(() => res.end(`${items.map((i) => JSON.stringify(i)).join(',')}]`), 5);
+      });
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, '127.0.0.1', resolve));
+    upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => upstream.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    items = ['a'];
+  });
+
+  const options = { ttl: 30, useMemory: true, useRedis: false };
+
+  test('forwards misses to the upstream and serves repeats from cache', async () => {
+    const server = http.createServer(
+      createCachingProxy({ ...options, upstream: `${upstreamUrl}/api` }),
+    );
+
+    const r1 = await request(server).get('/items?b=2&a=1');
+    const r2 = await request(server).get('/items?a=1&b=2');
+
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe('/api/items?b=2&a=1');
+    expect(received[0].headers.host).toBe(new URL(upstreamUrl).host);
+    expect(received[0].headers['accept-encoding']).toBe('identity');
+    expect(received[0].headers['x-forwarded-for']).toBeDefined();
+    expect(r1.headers['x-upstream']).toBe('yes');
+    expect(r1.headers['cache-status']).toBe('universal-api-cache; fwd=miss');
+    expect(r1.body).toEqual(['a']);
+    expect(r2.headers['x-cache']).toBe('HIT');
+    expect(r2.body).toEqual(['a']);
+  });
+
+  test('forwards write requests with their body and invalidates', async () => {
+    const server = http.createServer(createCachingProxy({ ...options, upstream: upstreamUrl }));
+
+    await request(server).get('/items');
+    const created = await request(server).post('/items').send({ name: 'b' });
+    const after = await request(server).get('/items');
+
+    expect(created.status).toBe(201);
+    expect(created.body).toEqual({ name: 'b' });
+    expect(received.map((r) => r.method)).toEqual(['GET', 'POST', 'GET']);
+    expect(JSON.parse(received[1].body)).toEqual({ name: 'b' });
+    expect(after.headers['x-cache']).toBeUndefined();
+    expect(after.body).toEqual(['a', 'b']);
+  });
+
+  test('bypasses requests with credentials', async () => {
+    const server = http.createServer(createCachingProxy({ ...options, upstream: upstreamUrl }));
+
+    await request(server).get('/items').set('Cookie', 'sid=alice');
+    const bob = await request(server).get('/items').set('Cookie', 'sid=bob');
+    await request(server).get('/items').set('Authorization', 'Bearer alice');
+    const bearer = await request(server).get('/items').set('Authorization', 'Bearer bob');
+
+    expect(received).toHaveLength(4);
+    expect(bob.headers['x-cache']).toBeUndefined();
+    expect(bearer.headers['x-cache']).toBeUndefined();
+  });
+
+  test('does not store private or no-store upstream responses', async () => {
+    const privateUpstream = http.createServer((req, res) => {
+      received.push({ method: req.method, url: req.url, headers: req.headers, body: '' });
+      res.writeHead(200, { 'Cache-Control': req.url === '/me' ? 'private' : 'no-store' });
+      res.end(`for ${req.headers['x-user']}`);
+    });
+    await new Promise<void>((resolve) => privateUpstream.listen(0, '127.0.0.1', resolve));
+    const port = (privateUpstream.address() as AddressInfo).port;
+    const server = http.createServer(
+      createCachingProxy({ ...options, upstream: `http://127.0.0.1:${port}` }),
+    );
+
+    try {
+      for (const path of ['/me', '/session']) {
+        await request(server).get(path).set('X-User', 'alice');
+        const bob = await request(server).get(path).set('X-User', 'bob');
+        expect(bob.text).toBe('for bob');
+      }
+      expect(received).toHaveLength(4);
+    } finally {
+      await new Promise((resolve) => privateUpstream.close(resolve));
+    }
+  });
+
+  test('lets the config override the credential bypass', async () => {
+    const server = http.createServer(
+      createCachingProxy({ ...options, upstream: upstreamUrl, skipCachePredicate: () => false }),
+    );
+
+    await request(server).get('/items').set('Cookie', 'sid=alice');
+    const r2 = await request(server).get('/items').set('Cookie', 'sid=alice');
+
+    expect(received).toHaveLength(1);
+    expect(r2.headers['x-cache']).toBe('HIT');
+  });
+
+  test('answers 502 when the upstream is unreachable', async () => {
+    const server = http.createServer(
+      createCachingProxy({
+        ...options,
+        upstream: 'http://127.0.0.1:1',
+        logger: {},
+      }),
+    );
+
+    const r1 = await request(server).get('/items');
+
+    expect(r1.status).toBe(502);
+    expect(r1.text).toBe('Bad Gateway');
+  });
+});
+
+describe('parseProxyArgs', () => {
+  test('reads options from a config file, with flags taking precedence', () => {
+    const file = path.join(os.tmpdir(), `api-cache-proxy-${process.pid}.json`);
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ upstream: 'http://legacy:3000', port: 9000, ttl: 120, useRedis: false }),
+    );
+    try {
+      const parsed = parseProxyArgs(['--config', file, '--port', '8081']);
+      expect(parsed.port).toBe(8081);
+      expect(parsed.options).toEqual({ upstream: 'http://legacy:3000', ttl: 120, useRedis: false });
+    } finally {
+      fs.unlinkSync(file);
+    }
+  });
+
+  test('requires a valid upstream', () => {
+    expect(() => parseProxyArgs([])).toThrow('Missing --upstream');
+    expect(() => parseProxyArgs(['--upstream', 'not a url'])).toThrow();
+    expect(() => parseProxyArgs(['--upstream', 'http://x', '--port', 'abc'])).toThrow(
+      'Invalid port',
+    );
+  });
+});
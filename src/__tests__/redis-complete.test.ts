@@ -1,6 +1,8 @@
 import { apiCache } from '../middleware';
 import type { ApiCacheOptions } from '../config';
 import { createClient } from 'redis';
+import { createCache } from '../cache';
+import { RedisStore } from '../store/redisStore';
 
 /**
  * 🚀 COMPREHENSIVE REDIS INTEGRATION TEST SUITE
@@ -901,6 +903,103 @@ describe('🚀 Comprehensive Redis Integration Tests', () => {
     }, 15000);
   });
 
+  describe('🏷️ Test Case 10: Namespace Isolation', () => {
+    it('should keep keys of apps sharing a Redis apart', async () => {
+      if (!redisClient?.isOpen) {
+        console.log('⏭️ Skipping Redis test - Redis not available');
+        return;
+      }
+
+      const orders = new RedisStore('redis://localhost:6379', { keyPrefix: 'orders:' });
+      const billing = new RedisStore('redis://localhost:6379', { keyPrefix: 'billing:' });
+      await Promise.all([orders.connect(), billing.connect()]);
+      const entry = (value: unknown) => ({ value, createdAt: Date.now(), ttl: 60 });
+
+      try {
+        await orders.set('GET:/users/1:::anon', entry('orders'), 60);
+        await billing.set('GET:/users/1:::anon', entry('billing'), 60);
+
+        // Stored under the prefix, returned without it
+        expect(await redisClient.exists('orders:GET:/users/1:::anon')).toBe(1);
+        expect(await orders.keys('*')).toEqual(['GET:/users/1:::anon']);
+        expect((await billing.get('GET:/users/1:::anon'))?.value).toBe('billing');
+
+        await orders.mdel(await orders.keys('*'));
+
+        expect(await orders.get('GET:/users/1:::anon')).toBeUndefined();
+        expect((await billing.get('GET:/users/1:::anon'))?.value).toBe('billing');
+      } finally {
+        await Promise.all([orders.close(), billing.close()]);
+      }
+    });
+  });
+
+  describe('📡 Test Case 11: Cross-Instance Invalidation', () => {
+    it('should clear other instances\' memory stores over pub/sub', async () => {
+      if (!redisClient?.isOpen) {
+        console.log('⏭️ Skipping Redis test - Redis not available');
+        return;
+      }
+
+      const options: ApiCacheOptions = { ttl: 60, useMemory: true, invalidationBus: true };
+      const [a, b] = [createCache(options), createCache(options)];
+      const load = jest.fn(async () => 'value');
+
+      try {
+        // Wait for both subscriptions
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        await b.wrap('memo:config', load);
+        await a.clearCache('memo:*');
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        expect(b.getCacheStats().keys).toBe(0);
+      } finally {
+        await Promise.all([a.close(), b.close()]);
+      }
+    });
+  });
+
+  describe('🗂️ Test Case 12: Secondary Index', () => {
+    it('should find keys and tagged entries through the index', async () => {
+      if (!redisClient?.isOpen) {
+        console.log('⏭️ Skipping Redis test - Redis not available');
+        return;
+      }
+
+      const store = new RedisStore('redis://localhost:6379', { index: true });
+      await store.connect();
+      const entry = (tags?: string[]) => ({ value: 1, createdAt: Date.now(), ttl: 60, tags });
+
+      try {
+        await store.set('GET:/users/1:::anon', entry(['user:1']), 60);
+        await store.set('GET:/users/10:::42', entry(), 60);
+        await store.set('GET:/posts/1:::anon', entry(['user:1']), 60);
+
+        expect((await store.keys('GET:/users/1*')).sort()).toEqual([
+          'GET:/users/10:::42',
+          'GET:/users/1:::anon',
+        ]);
+        expect(await store.keys('GET:/users/1:*:*:*')).toEqual(['GET:/users/1:::anon']);
+        expect((await store.keysWithTags(['user:1'])).sort()).toEqual([
+          'GET:/posts/1:::anon',
+          'GET:/users/1:::anon',
+        ]);
+        // Index sets are not cache keys
+        expect(await store.keys('*')).toHaveLength(3);
+
+        await store.del('GET:/users/1:::anon');
+        expect(await store.keys('GET:/users/*')).toEqual(['GET:/users/10:::42']);
+
+        await store.set('GET:/users/2:::anon', entry(), 1);
+        await new Promise((resolve) => setTimeout(resolve, 1100));
+        expect(await store.keys('GET:/users/*')).toEqual(['GET:/users/10:::42']);
+        expect(await redisClient.zCard('__index:path:/users')).toBe(1);
+      } finally {
+        await store.close();
+      }
+    });
+  });
+
   describe('📊 Integration Summary', () => {
     it('should summarize Redis integration test results', () => {
       console.log('\n📊 === REDIS INTEGRATION TEST SUMMARY ===');
@@ -0,0 +1,128 @@
+import net from 'net';
+
+import { runCacheStoreConformanceTests } from '../store/conformance';
+import { RedisStore, resolveSentinelMaster } from '../store/redisStore';
+
+/**
+ * Redis Cluster and Sentinel integration tests. They run against the local setup started by
+ * ./setup-redis-ha-tests.sh:
+ *
+ *   REDIS_CLUSTER_NODES=redis://127.0.0.1:7000 REDIS_SENTINELS=redis://127.0.0.1:26379 \
+ *     npm test -- redis-ha
+ */
+const clusterNodes = process.env.REDIS_CLUSTER_NODES?.split(',');
+const sentinels = process.env.REDIS_SENTINELS?.split(',');
+const sentinelName = process.env.REDIS_SENTINEL_NAME ?? 'mymaster';
+
+async function connected(store: RedisStore): Promise<RedisStore> {
+  await store.connect();
+  return store;
+}
+
+const describeCluster = clusterNodes ? describe : describe.skip;
+const describeSentinel = sentinels ? describe : describe.skip;
+
+describeCluster('RedisStore with Redis Cluster', () => {
+  if (clusterNodes) {
+    runCacheStoreConformanceTests('Redis Cluster', () =>
+      connected(new RedisStore('', { cluster: { rootNodes: clusterNodes } })),
+    );
+    runCacheStoreConformanceTests('Redis Cluster with index', () =>
+      connected(new RedisStore('', { cluster: { rootNodes: clusterNodes }, index: true })),
+    );
+  }
+
+  let store: RedisStore;
+
+  beforeAll(async () => {
+    store = await connected(new RedisStore('', { cluster: { rootNodes: clusterNodes! } }));
+  });
+
+  afterAll(async () => {
+    await store.mdel(await store.keys('GET:/ha-*'));
+    await store.close();
+  });
+
+  const entry = (value: unknown) => ({ value, createdAt: Date.now(), ttl: 60 });
+
+  test('keys() scans every master', async () => {
+    // Distinct tags spread over the slots of all masters
+    const keys = Array.from({ length: 30 }, (_, i) => `GET:/ha-${i}:::anon`);
+    await Promise.all(keys.map((k) => store.set(k, entry(k), 60)));
+
+    expect((await store.keys('GET:/ha-*')).sort()).toEqual([...keys].sort());
+    expect(await store.mget(keys)).toHaveLength(30);
+
+    await store.mdel(keys);
+    expect(await store.keys('GET:/ha-*')).toEqual([]);
+  });
+
+  test('keys sharing a path segment are matched within their slot', async () => {
+    await store.set('GET:/ha-users/1:::anon', entry(1), 60);
+    await store.set('GET:/ha-users/2:::42', entry(2), 60);
+    await store.set('GET:/ha-posts/1:::anon', entry(3), 60);
+
+    expect((await store.keys('GET:/ha-users/*:anon')).sort()).toEqual(['GET:/ha-users/1:::anon']);
+    expect((await store.keys('GET:/ha-users/*')).sort()).toEqual([
+      'GET:/ha-users/1:::anon',
+      'GET:/ha-users/2:::42',
+    ]);
+  });
+});
+
+describeSentinel('RedisStore with Redis Sentinel', () => {
+  const sentinel = { name: sentinelName, sentinels: sentinels! };
+
+  if (sentinels) {
+    runCacheStoreConformanceTests('Redis Sentinel', () =>
+      connected(new RedisStore('', { sentinel })),
+    );
+  }
+
+  test('resolves the master address', async () => {
+    const master = await resolveSentinelMaster(sentinel);
+    expect(master.host).toBeTruthy();
+    expect(master.port).toBeGreaterThan(0);
+  });
+
+  test('retries the master lookup when the sentinels are unreachable at startup', async () => {
+    const target = new URL(sentinels![0]);
+    const relay = net.createServer((socket) => {
+      const upstream = net.connect(Number(target.port), target.hostname);
+      socket.pipe(upstream).pipe(socket);
+      socket.on('error', () => upstream.destroy());
+      upstream.on('error', () => socket.destroy());
+    });
+    // Reserve a port, then leave it closed so the startup lookup fails
+    await new Promise<void>((resolve) => relay.listen(0, '127.0.0.1', resolve));
+    const { port } = relay.address() as net.AddressInfo;
+    await new Promise((resolve) => relay.close(resolve));
+
+    const store = await connected(
+      new RedisStore('', { sentinel: { ...sentinel, sentinels: [`redis://127.0.0.1:${port}`] } }),
+    );
+    const key = 'GET:/ha-sentinel-retry:::anon';
+    const entry = { value: 1, createdAt: Date.now(), ttl: 60 };
+    expect(await store.get(key)).toBeUndefined();
+
+    await new Promise<void>((resolve) => relay.listen(port, '127.0.0.1', resolve));
+    try {
+      const deadline = Date.now() + 10_000;
+      while (!(await store.get(key)) && Date.now() < deadline) {
+        await store.set(key, entry, 60);
+        await new Promise((resolve) => setTimeout(resolve, 200));
+      }
+      expect(await store.get(key)).toEqual(entry);
+      await store.del(key);
+    } finally {
+      await store.close();
+      await new Promise((resolve) => relay.close(resolve));
+    }
+  });
+
+  test('rejects unknown master names', async () => {
+    await expect(resolveSentinelMaster({ ...sentinel, name: 'no-such-master' })).rejects.toThrow(
+      'does not know master',
+    );
+  });
+});
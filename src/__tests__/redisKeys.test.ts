@@ -0,0 +1,92 @@
+import {
+  defaultHashTag,
+  defaultHashTagOfPattern,
+  groupBySlot,
+  indexNameOfPattern,
+  keyIndexNames,
+  slotOf,
+  toRedisMatch,
+  withHashTag,
+  withoutHashTag,
+} from '../store/redisKeys';
+
+describe('Redis Cluster hash tags', () => {
+  test('request keys are tagged by their first path segment', () => {
+    expect(defaultHashTag('GET:/users/1:::anon')).toBe('/users');
+    expect(defaultHashTag('POST:/users:a=1:abc:42')).toBe('/users');
+    expect(defaultHashTag('GET:/:::anon')).toBe('/');
+    expect(defaultHashTag('memo:getUser:abc')).toBe('memo');
+    expect(defaultHashTag('fetch:GET:https://api.example.com/rates')).toBe('fetch');
+  });
+
+  test('patterns resolve to a tag only when every match shares it', () => {
+    expect(defaultHashTagOfPattern('GET:/users:*:*:42')).toBe('/users');
+    expect(defaultHashTagOfPattern('GET:/users/*')).toBe('/users');
+    expect(defaultHashTagOfPattern('memo:getUser:*')).toBe('memo');
+    // `/users*` also matches /users2, `GET:*` any path, `*:` any number of parts
+    expect(defaultHashTagOfPattern('memo:*')).toBeUndefined();
+    expect(defaultHashTagOfPattern('GET:/users*')).toBeUndefined();
+    expect(defaultHashTagOfPattern('GET:*')).toBeUndefined();
+    expect(defaultHashTagOfPattern('*:/users/*')).toBeUndefined();
+    expect(defaultHashTagOfPattern('*')).toBeUndefined();
+  });
+
+  test('tagged keys round-trip and share a slot per tag', () => {
+    const a = withHashTag('GET:/users/1:::anon', '/users');
+    const b = withHashTag('GET:/users/2:::anon', '/users');
+
+    expect(a).toBe('{/users}GET:/users/1:::anon');
+    expect(withoutHashTag(a)).toBe('GET:/users/1:::anon');
+    expect(slotOf(a)).toBe(slotOf(b));
+    expect(withHashTag('key', '{odd}')).toBe('{odd}key');
+    expect(withHashTag('key', '')).toBe('{_}key');
+  });
+
+  test('groups keys by slot keeping their positions', () => {
+    const keys = [
+      withHashTag('GET:/users/1', '/users'),
+      withHashTag('GET:/posts/1', '/posts'),
+      withHashTag('GET:/users/2', '/users'),
+    ];
+
+    const groups = groupBySlot(keys);
+
+    expect(groups).toHaveLength(2);
+    expect(groups.find((g) => g.keys.length === 2)?.indexes).toEqual([0, 2]);
+  });
+
+  test('escapes Redis glob characters other than *', () => {
+    expect(toRedisMatch('GET:/search:q=[a]?*')).toBe('GET:/search:q=\\[a\\]\\?*');
+  });
+
+  test('matches a key prefix literally, including *', () => {
+    expect(toRedisMatch('GET:/users*', 'orders:')).toBe('orders:GET:/users*');
+    expect(toRedisMatch('*', 'a*[b]:')).toBe('a\\*\\[b\\]:*');
+  });
+});
+
+describe('Redis secondary index', () => {
+  test('request keys are indexed by first part, path prefixes and user', () => {
+    expect(keyIndexNames('GET:/users/1/posts:a=1::42')).toEqual([
+      'first:GET',
+      'path:/users',
+      'path:/users/1',
+      'path:/users/1/posts',
+      'user:42',
+    ]);
+    expect(keyIndexNames('GET:/:::anon')).toEqual(['first:GET', 'path:/', 'user:anon']);
+    expect(keyIndexNames('memo:getUser:abc')).toEqual(['first:memo']);
+  });
+
+  test('patterns read the narrowest set holding all their matches', () => {
+    expect(indexNameOfPattern('GET:/users/1:*:*:42')).toBe('path:/users/1');
+    expect(indexNameOfPattern('GET:/users/1/*')).toBe('path:/users/1');
+    // `/users/1*` also matches /users/10
+    expect(indexNameOfPattern('GET:/users/1*')).toBe('path:/users');
+    expect(indexNameOfPattern('GET:/*:*:*:42')).toBe('user:42');
+    expect(indexNameOfPattern('GET:/users*')).toBe('first:GET');
+    expect(indexNameOfPattern('memo:*')).toBe('first:memo');
+    expect(indexNameOfPattern('*:/users/*')).toBeUndefined();
+    expect(indexNameOfPattern('*')).toBeUndefined();
+  });
+});
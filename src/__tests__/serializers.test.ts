@@ -0,0 +1,40 @@
+import type { CacheValue } from '../store/memoryStore';
+import { jsonSerializer, msgpackSerializer, v8Serializer } from '../store/serializers';
+
+describe.each([jsonSerializer, v8Serializer, msgpackSerializer])(
+  '$name serializer',
+  (serializer) => {
+    const entry: CacheValue = {
+      value: {
+        list: [{ id: 1, name: 'Alice' }],
+        thumbnail: Buffer.from([0, 1, 2, 254, 255]),
+        updatedAt: new Date('2024-05-01T12:00:00Z'),
+      },
+      createdAt: 1700000000000,
+      ttl: 60,
+      statusCode: 200,
+      headers: { 'content-type': 'application/json', link: ['<a>', '<b>'] },
+      etag: '"abc"',
+    };
+
+    test('round-trips entries', () => {
+      const data = serializer.serialize(entry);
+      expect(Buffer.isBuffer(data)).toBe(serializer.binary);
+
+      const decoded = serializer.deserialize<any>(data);
+      expect(decoded.value.list).toEqual(entry.value.list);
+      expect(Buffer.isBuffer(decoded.value.thumbnail)).toBe(true);
+      expect(decoded.value.thumbnail.equals(entry.value.thumbnail)).toBe(true);
+      expect(decoded.value.updatedAt.getTime()).toBe(entry.value.updatedAt.getTime());
+      expect(decoded.headers).toEqual(entry.headers);
+      expect(decoded.createdAt).toBe(entry.createdAt);
+    });
+  },
+);
+
+test.each([v8Serializer, msgpackSerializer])('$name serializer keeps Maps', (serializer) => {
+  const entry: CacheValue = { value: new Map([['a', 1]]), createdAt: 0, ttl: 1 };
+  const decoded = serializer.deserialize<Map<string, number>>(serializer.serialize(entry));
+  expect(Object.prototype.toString.call(decoded.value)).toBe('[object Map]');
+  expect(decoded.value.get('a')).toBe(1);
+});
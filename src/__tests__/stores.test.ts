@@ -0,0 +1,166 @@
+import express from 'express';
+import request from 'supertest';
+
+import { apiCache } from '../middleware';
+import type { CacheStore } from '../store/cacheStore';
+import { runCacheStoreConformanceTests } from '../store/conformance';
+import { MemoryStore, type CacheValue } from '../store/memoryStore';
+
+/**
+ * A minimal store with only the required methods
+ */
+class MapStore implements CacheStore {
+  readonly entries = new Map<string, { val: CacheValue; expiresAt: number }>();
+
+  async get<T>(key: string): Promise<CacheValue<T> | undefined> {
+    const found = this.entries.get(key);
+    if (!found) return undefined;
+    if (found.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return found.val as CacheValue<T>;
+  }
+
+  async set<T>(key: string, val: CacheValue<T>, ttlSeconds: number): Promise<void> {
+    this.entries.set(key, { val, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async del(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async keys(pattern = '*'): Promise<string[]> {
+    const re = new RegExp(`^${pattern.split('*').map(escape).join('.*')}$`);
+    return Array.from(this.entries.keys()).filter((k) => re.test(k));
+  }
+
+  stats() {
+    return { keys: this.entries.size };
+  }
+}
+
+/**
+ * A store whose backend is down: every call rejects
+ */
+class FailingStore extends MapStore {
+  async get<T>(): Promise<CacheValue<T> | undefined> {
+    throw new Error('store down');
+  }
+
+  async set(): Promise<void> {
+    throw new Error('store down');
+  }
+
+  async del(): Promise<void> {
+    throw new Error('store down');
+  }
+
+  async keys(): Promise<string[]> {
+    throw new Error('store down');
+  }
+}
+
+function escape(s: string): string {
+  return s.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+runCacheStoreConformanceTests('MemoryStore', () => new MemoryStore());
+runCacheStoreConformanceTests(
+  'bounded MemoryStore',
+  () => new MemoryStore({ maxEntries: 100, maxBytes: 1_000_000 }),
+);
+runCacheStoreConformanceTests('Map-based', () => new MapStore());
+
+describe('options.stores', () => {
+  function buildApp(stores: NonNullable<Parameters<typeof apiCache>[0]>['stores']) {
+    const app = express();
+    let calls = 0;
+    const cache = apiCache({ ttl: 30, stores });
+    app.use(cache);
+    app.get('/users', (req, res) => {
+      calls++;
+      res.json([{ id: 1 }]);
+    });
+    app.post('/users', (req, res) => res.status(201).json({ id: 2 }));
+    return { app, cache, calls: () => calls };
+  }
+
+  test('writes to every store and reads in order, reporting tier names', async () => {
+    const near = new MapStore();
+    const far = new MapStore();
+    const { app, calls } = buildApp([
+      { name: 'near', store: near },
+      { name: 'far', store: far },
+    ]);
+
+    await request(app).get('/users');
+    expect(near.stats().keys).toBe(1);
+    expect(far.stats().keys).toBe(1);
+
+    const fromNear = await request(app).get('/users');
+    expect(fromNear.headers['cache-status']).toMatch(/detail=near$/);
+
+    near.entries.clear();
+    const fromFar = await request(app).get('/users');
+    expect(fromFar.headers['cache-status']).toMatch(/detail=far$/);
+    expect(fromFar.body).toEqual([{ id: 1 }]);
+    expect(calls()).toBe(1);
+  });
+
+  test('unnamed stores are reported by class name', async () => {
+    const { app } = buildApp([new MapStore()]);
+
+    await request(app).get('/users');
+    const r2 = await request(app).get('/users');
+
+    expect(r2.headers['cache-status']).toMatch(/detail=MapStore$/);
+  });
+
+  test('uses batch and lifecycle methods when a store has them', async () => {
+    const store = new MemoryStore();
+    const mdel = jest.spyOn(store, 'mdel');
+    const clear = jest.spyOn(store, 'clear');
+    const close = jest.spyOn(store, 'close');
+    const { app, cache } = buildApp([store]);
+
+    await request(app).get('/users');
+    await request(app).post('/users').send({});
+    expect(mdel).toHaveBeenCalledWith(['GET:/users:::anon']);
+    expect(store.stats().keys).toBe(0);
+
+    await cache.clearCache();
+    expect(clear).toHaveBeenCalled();
+
+    await cache.close();
+    expect(close).toHaveBeenCalled();
+  });
+
+  test('a failing store is skipped on reads and writes', async () => {
+    const far = new MapStore();
+    const { app, calls } = buildApp([{ name: 'near', store: new FailingStore() }, far]);
+
+    const r1 = await request(app).get('/users').expect(200);
+    expect(r1.body).toEqual([{ id: 1 }]);
+    expect(far.stats().keys).toBe(1);
+
+    const r2 = await request(app).get('/users').expect(200);
+    expect(r2.headers['x-cache']).toBe('HIT');
+    expect(calls()).toBe(1);
+  });
+
+  test('store errors the cache cannot absorb reach the error handler', async () => {
+    const { app } = buildApp([new FailingStore()]);
+    // Express recognizes error handlers by their four parameters
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    app.use((err: Error, req: any, res: any, next: any) => {
+      res.status(503).json({ error: err.message });
+    });
+
+    await request(app).get('/users').expect(200);
+    const res = await request(app).post('/users').send({});
+
+    expect(res.status).toBe(503);
+    expect(res.body).toEqual({ error: 'store down' });
+  });
+});
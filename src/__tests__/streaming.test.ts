@@ -0,0 +1,69 @@
+import express from 'express';
+import { Readable } from 'stream';
+import request from 'supertest';
+
+import { apiCache } from '../middleware';
+
+describe('apiCache with streamed responses', () => {
+  test('caches bodies written with res.write/res.end', async () => {
+    const app = express();
+    app.use(apiCache({ ttl: 30, useMemory: true, useRedis: false }));
+
+    let calls = 0;
+    app.get('/export.csv', (req, res) => {
+      calls++;
+      res.setHeader('Content-Type', 'text/csv');
+      res.write('id,name\n');
+      res.write(Buffer.from('1,Alice\n'));
+      res.end('2,Bob\n');
+    });
+
+    const r1 = await request(app).get('/export.csv');
+    const r2 = await request(app).get('/export.csv');
+
+    expect(calls).toBe(1);
+    expect(r2.headers['x-cache']).toBe('HIT');
+    expect(r2.headers['content-type']).toMatch(/text\/csv/);
+    expect(r2.text).toBe('id,name\n1,Alice\n2,Bob\n');
+    expect(r2.text).toBe(r1.text);
+  });
+
+  test('caches responses piped from a readable stream', async () => {
+    const app = express();
+    app.use(apiCache({ ttl: 30, useMemory: true, useRedis: false }));
+
+    let calls = 0;
+    app.get('/events.ndjson', (req, res) => {
+      calls++;
+      res.setHeader('Content-Type', 'application/x-ndjson');
+      Readable.from(['{"n":1}\n', '{"n":2}\n']).pipe(res);
+    });
+
+    await request(app).get('/events.ndjson');
+    const r2 = await request(app).get('/events.ndjson');
+
+    expect(calls).toBe(1);
+    expect(r2.text).toBe('{"n":1}\n{"n":2}\n');
+  });
+
+  test('skips caching once maxPayloadSize is exceeded', async () => {
+    const app = express();
+    const cache = apiCache({ ttl: 30, useMemory: true, useRedis: false, maxPayloadSize: 10 });
+    app.use(cache);
+
+    let calls = 0;
+    app.get('/big', (req, res) => {
+      calls++;
+      res.write('0123456789');
+      res.end('overflow');
+    });
+
+    const r1 = await request(app).get('/big');
+    const r2 = await request(app).get('/big');
+
+    expect(r1.text).toBe('0123456789overflow');
+    expect(r2.text).toBe('0123456789overflow');
+    expect(calls).toBe(2);
+    expect(cache.getCacheStats().keys).toBe(0);
+  });
+});
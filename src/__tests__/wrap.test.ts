@@ -0,0 +1,130 @@
+import express from 'express';
+import request from 'supertest';
+
+import { createCache } from '../cache';
+import { apiCache } from '../middleware';
+
+describe('cache.wrap and memoize', () => {
+  const options = { ttl: 30, useMemory: true, useRedis: false };
+
+  test('wrap caches results under the given key', async () => {
+    const cache = createCache(options);
+    const fn = jest.fn(async () => ({ id: 1 }));
+
+    expect(await cache.wrap('user:1', fn)).toEqual({ id: 1 });
+    expect(await cache.wrap('user:1', fn)).toEqual({ id: 1 });
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(cache.getCacheStats()).toEqual({ hits: 1, misses: 1, keys: 1, evictions: 0 });
+  });
+
+  test('wrap coalesces concurrent calls and shares failures', async () => {
+    const cache = createCache(options);
+    let calls = 0;
+    const slow = () => new Promise<number>((resolve) => setTimeout(() => resolve(++calls), 20));
+
+    const results = await Promise.all([cache.wrap('slow', slow), cache.wrap('slow', slow)]);
+    expect(results).toEqual([1, 1]);
+
+    const failing = jest.fn(async () => {
+      throw new Error('down');
+    });
+    const attempts = [cache.wrap('failing', failing), cache.wrap('failing', failing)];
+    await expect(Promise.all(attempts)).rejects.toThrow('down');
+    expect(failing).toHaveBeenCalledTimes(1);
+    expect(cache.getCacheStats().keys).toBe(1);
+  });
+
+  test('wrap serves stale values while refreshing', async () => {
+    const cache = createCache({ ...options, staleWhileRevalidate: true });
+    let version = 0;
+    const load = async () => ++version;
+
+    await cache.wrap('config', load, { ttl: 0 });
+    expect(await cache.wrap('config', load, { ttl: 0 })).toBe(1);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(await cache.wrap('config', load, { ttl: 0 })).toBe(2);
+  });
+
+  test('memoize keys calls by arguments and supports tags', async () => {
+    const cache = createCache(options);
+    const findUser = jest.fn(async (id: number) => ({ id }));
+    const cachedFindUser = cache.memoize(findUser, {
+      keyFn: (id) => `user:${id}`,
+      tags: (id) => [`user:${id}`],
+    });
+
+    await cachedFindUser(1);
+    await cachedFindUser(1);
+    await cachedFindUser(2);
+    expect(findUser).toHaveBeenCalledTimes(2);
+
+    await cache.invalidateTags(['user:1']);
+    await cachedFindUser(1);
+    await cachedFindUser(2);
+    expect(findUser).toHaveBeenCalledTimes(3);
+  });
+
+  test('memoize defaults to a key from the function name and arguments', async () => {
+    const cache = createCache(options);
+    const add = jest.fn((a: number, b: number) => a + b);
+    const cachedAdd = cache.memoize(add);
+
+    expect(await cachedAdd(1, 2)).toBe(3);
+    expect(await cachedAdd(1, 2)).toBe(3);
+    expect(await cachedAdd(2, 1)).toBe(3);
+    expect(add).toHaveBeenCalledTimes(2);
+  });
+
+  test('memoize needs a stable name for anonymous functions', async () => {
+    const cache = createCache(options);
+    expect(() => cache.memoize((n: number) => n * 2)).toThrow('keyFn or name');
+
+    const double = cache.memoize((n: number) => n * 2, { name: 'double' });
+    const square = cache.memoize((n: number) => n * n, { name: 'square' });
+    const again = cache.memoize((n: number) => n * 2, { name: 'double' });
+
+    expect(await double(3)).toBe(6);
+    expect(await square(3)).toBe(9);
+    expect(await again(3)).toBe(6);
+    expect(cache.getCacheStats()).toMatchObject({ hits: 1, keys: 2 });
+  });
+
+  test('memoize hashes Date, Map and Set arguments by content', async () => {
+    const cache = createCache(options);
+    const label = jest.fn((value: unknown) => String(value instanceof Date ? +value : value));
+    const cached = cache.memoize(label, { name: 'label' });
+
+    await cached(new Date(1000));
+    await cached(new Date(2000));
+    await cached(new Map([['a', 1]]));
+    await cached(new Map([['a', 2]]));
+    await cached(new Set([1, 2]));
+    await cached(new Set([1, 3]));
+    expect(label).toHaveBeenCalledTimes(6);
+
+    await cached(new Date(1000));
+    await cached(new Set([2, 1]));
+    expect(label).toHaveBeenCalledTimes(6);
+  });
+
+  test('shares stores and invalidation with the HTTP cache', async () => {
+    const app = express();
+    const cache = apiCache(options);
+    app.use(cache);
+
+    const loadUsers = jest.fn(async () => [{ id: 1 }]);
+    app.get('/users', async (req, res) => res.json(await cache.wrap('db:users', loadUsers)));
+    app.get('/users/count', async (req, res) =>
+      res.json({ count: (await cache.wrap('db:users', loadUsers)).length }),
+    );
+
+    await request(app).get('/users');
+    await request(app).get('/users/count');
+    expect(loadUsers).toHaveBeenCalledTimes(1);
+
+    await cache.clearCache('db:*');
+    await cache.wrap('db:users', loadUsers);
+    expect(loadUsers).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,106 @@
+import { randomUUID } from 'crypto';
+
+import type { ApiCacheOptions } from '../config';
+import { createCacheCore, type CachedResponse, type MissCapture } from '../core';
+
+// Marks the internal request that refreshes a stale entry
+const REFRESH_HEADER = 'x-api-cache-refresh';
+
+function hasBody(method: string): boolean {
+  return ['POST', 'PUT', 'PATCH', 'DELETE'].includes((method || 'GET').toUpperCase());
+}
+
+/**
+ * Fastify plugin running the same caching pipeline as the Express middleware.
+ * Lookups happen in onRequest (preHandler for methods with a body, which must be parsed
+ * first) and fresh responses are captured in onSend.
+ */
+export function fastifyApiCache(userOptions: ApiCacheOptions = {}) {
+  const core = createCacheCore(userOptions);
+  const refreshToken = randomUUID();
+  const captures = new WeakMap<object, MissCapture>();
+
+  function sendCachedResponse(reply: any, response: CachedResponse) {
+    reply.headers(response.headers);
+    if (response.notModified) return reply.code(304).send();
+    return reply.code(response.status).send(response.body);
+  }
+
+  function refreshInBackground(request: any, key: string): void {
+    core.revalidateInBackground(key, async () => {
+      const headers = { ...request.headers, [REFRESH_HEADER]: refreshToken };
+      delete headers['content-length'];
+      await request.server.inject({
+        method: request.method,
+        url: request.url,
+        headers,
+        payload: request.body,
+      });
+    });
+  }
+
+  async function lookup(request: any, reply: any) {
+    const refresh = request.headers[REFRESH_HEADER] === refreshToken;
+    const decision = await core.handle(request, { refresh });
+
+    if (decision.type === 'pass') return;
+
+    if (decision.type === 'hit') {
+      // Stale-while-revalidate: refresh in background
+      if (decision.stale) refreshInBackground(request, decision.key);
+      return sendCachedResponse(reply, decision.response);
+    }
+
+    reply.headers(decision.headers);
+    captures.set(request, decision.capture);
+  }
+
+  const plugin = async function (fastify: any) {
+    fastify.addHook('onRequest', async (request: any, reply: any) => {
+      if (!hasBody(request.method)) return lookup(request, reply);
+    });
+
+    fastify.addHook('preHandler', async (request: any, reply: any) => {
+      if (hasBody(request.method)) return lookup(request, reply);
+    });
+
+    fastify.addHook('onSend', async (request: any, reply: any, payload: any) => {
+      const capture = captures.get(request);
+      if (!capture) return payload;
+      captures.delete(request);
+
+      // Streams are sent as-is and not cached
+      if (payload && typeof payload.pipe === 'function') {
+        capture.abort();
+        return payload;
+      }
+
+      const snapshot = {
+        statusCode: reply.statusCode,
+        getHeader: (name: string) => reply.getHeader(name),
+      };
+      reply.headers(core.validatorHeaders(snapshot, payload ?? ''));
+      void capture.complete(snapshot, payload ?? '');
+      return payload;
+    });
+
+    fastify.addHook('onResponse', async (request: any) => {
+      // Release coalesced waiters if the response never reached onSend
+      captures.get(request)?.abort();
+      captures.delete(request);
+    });
+  };
+
+  // Register hooks on the parent instance, as fastify-plugin would
+  (plugin as any)[Symbol.for('skip-override')] = true;
+  (plugin as any)[Symbol.for('fastify.display-name')] = 'universal-api-cache';
+
+  return Object.assign(plugin, {
+    clearCache: core.clearCache,
+    invalidateTags: core.invalidateTags,
+    getCacheStats: core.getCacheStats,
+    wrap: core.wrap,
+    memoize: core.memoize,
+    close: core.close,
+  });
+}
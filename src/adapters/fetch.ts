@@ -0,0 +1,236 @@
+import type { ApiCacheOptions } from '../config';
+import { createCacheCore, type CachedResponse } from '../core';
+import { parseBody } from '../utils/body';
+
+export type FetchHandler<Args extends unknown[] = []> = (
+  request: Request,
+  ...args: Args
+) => Response | Promise<Response>;
+
+/**
+ * Request-like view of a Fetch Request, shaped like the objects the core reads
+ * (method, url, path, query, headers, body). The original Request is kept on `request`.
+ */
+export interface FetchCacheRequest {
+  method: string;
+  url: string;
+  originalUrl: string;
+  path: string;
+  query: Record<string, string>;
+  params: Record<string, string>;
+  headers: Record<string, string>;
+  body: unknown;
+  request: Request;
+}
+
+async function toCacheRequest(request: Request): Promise<FetchCacheRequest> {
+  const url = new URL(request.url);
+  const method = request.method.toUpperCase();
+  const headers = Object.fromEntries(request.headers);
+
+  // Read a clone so the handler can still consume the original body
+  let body: unknown;
+  if (method !== 'GET' && method !== 'HEAD' && request.body) {
+    body = parseBody(await request.clone().text(), headers['content-type'] ?? '');
+  }
+
+  return {
+    method,
+    url: url.pathname + url.search,
+    originalUrl: url.pathname + url.search,
+    path: url.pathname,
+    query: Object.fromEntries(url.searchParams),
+    params: {},
+    headers,
+    body,
+    request,
+  };
+}
+
+/**
+ * Read a body stream into a Buffer, or undefined once it grows past maxBytes
+ */
+async function readBody(stream: ReadableStream<Uint8Array>, maxBytes: number) {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks);
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return undefined;
+    }
+    chunks.push(value);
+  }
+}
+
+/**
+ * Read a body stream into a Buffer; past maxBytes, return a stream replaying what was read
+ * followed by the rest instead
+ */
+async function bufferBody(
+  stream: ReadableStream<Uint8Array>,
+  maxBytes: number,
+): Promise<Buffer | ReadableStream<Uint8Array>> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks);
+    chunks.push(value);
+    size += value.byteLength;
+    if (size > maxBytes) break;
+  }
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel: (reason) => reader.cancel(reason),
+  });
+}
+
+function toHeaders(record: Record<string, string | string[]>, base?: Headers): Headers {
+  const headers = new Headers(base);
+  for (const [name, value] of Object.entries(record)) {
+    headers.delete(name);
+    for (const v of Array.isArray(value) ? value : [value]) headers.append(name, v);
+  }
+  return headers;
+}
+
+function toResponse(response: CachedResponse): Response {
+  const headers = toHeaders(response.headers);
+  if (response.notModified) return new Response(null, { status: 304, headers });
+
+  const { body } = response;
+  let payload: BodyInit | null = null;
+  if (Buffer.isBuffer(body)) payload = new Uint8Array(body);
+  else if (typeof body === 'string') payload = body;
+  else if (body !== undefined && body !== null) {
+    payload = JSON.stringify(body);
+    if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+  }
+  return new Response(payload, { status: response.status, headers });
+}
+
+function snapshotOf(response: Response) {
+  return {
+    statusCode: response.status,
+    getHeader: (name: string) => response.headers.get(name) ?? undefined,
+  };
+}
+
+/**
+ * Wrap a Fetch API handler `(Request) => Response` with the caching pipeline.
+ * Works with Hono, Next.js route handlers, Bun and Deno style servers.
+ */
+export function withApiCache<Args extends unknown[] = []>(
+  handler: FetchHandler<Args>,
+  userOptions: ApiCacheOptions = {},
+) {
+  const core = createCacheCore(userOptions);
+  const { options, logger } = core;
+
+  async function storeFresh(req: FetchCacheRequest, response: Response, ttl: number) {
+    const body = response.body ? await readBody(response.body, options.maxPayloadSize) : '';
+    if (body === undefined) {
+      logger.warn &&
+        logger.warn('[payload too large for cache]', { maxSize: options.maxPayloadSize });
+      return;
+    }
+    await core.storeResponse(req, snapshotOf(response), body, ttl);
+  }
+
+  async function cachedHandler(request: Request, ...args: Args): Promise<Response> {
+    const req = await toCacheRequest(request);
+    const decision = await core.handle(req);
+
+    if (decision.type === 'pass') return handler(request, ...args);
+
+    if (decision.type === 'hit') {
+      // Stale-while-revalidate: refresh in background with the unread original request
+      if (decision.stale) {
+        core.revalidateInBackground(decision.key, async () => {
+          const fresh = await handler(request, ...args);
+          await storeFresh(req, fresh, decision.ttl);
+        });
+      }
+      return toResponse(decision.response);
+    }
+
+    const { capture } = decision;
+    let response: Response;
+    try {
+      response = await handler(request, ...args);
+    } catch (e) {
+      capture.abort();
+      throw e;
+    }
+
+    const snapshot = snapshotOf(response);
+    const headers = toHeaders(decision.headers, response.headers);
+    const tooLarge = () => {
+      logger.warn &&
+        logger.warn('[payload too large for cache]', {
+          key: decision.key,
+          maxSize: options.maxPayloadSize,
+        });
+      capture.abort();
+    };
+
+    // The ETag goes out before the body, so buffer it unless it is an event stream
+    const withValidators =
+      options.etag && !response.headers.get('content-type')?.startsWith('text/event-stream');
+
+    let clientBody: BodyInit | null = response.body;
+    if (response.body && withValidators) {
+      const body = await bufferBody(response.body, options.maxPayloadSize);
+      if (Buffer.isBuffer(body)) {
+        for (const [name, value] of Object.entries(core.validatorHeaders(snapshot, body))) {
+          headers.set(name, value);
+        }
+        void capture.complete(snapshot, body);
+        clientBody = new Uint8Array(body);
+      } else {
+        tooLarge();
+        clientBody = body;
+      }
+    } else if (response.body) {
+      // Stream the body to the client while a second branch is read for the cache
+      const [forClient, forCache] = response.body.tee();
+      clientBody = forClient;
+      readBody(forCache, options.maxPayloadSize)
+        .then((body) => (body === undefined ? tooLarge() : capture.complete(snapshot, body)))
+        .catch(() => capture.abort());
+    } else {
+      for (const [name, value] of Object.entries(core.validatorHeaders(snapshot, ''))) {
+        headers.set(name, value);
+      }
+      void capture.complete(snapshot, '');
+    }
+
+    return new Response(clientBody, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+
+  // Attach utility methods to the wrapped handler
+  return Object.assign(cachedHandler, {
+    clearCache: core.clearCache,
+    invalidateTags: core.invalidateTags,
+    getCacheStats: core.getCacheStats,
+    wrap: core.wrap,
+    memoize: core.memoize,
+    close: core.close,
+  });
+}
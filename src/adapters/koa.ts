@@ -0,0 +1,109 @@
+import { ServerResponse } from 'http';
+
+import type { ApiCacheOptions } from '../config';
+import { createCacheCore, type CachedResponse } from '../core';
+
+/**
+ * Koa middleware running the same caching pipeline as the Express middleware.
+ * Responses are read from ctx.status / ctx.body once downstream middleware has finished.
+ */
+export function koaApiCache(userOptions: ApiCacheOptions = {}) {
+  const core = createCacheCore(userOptions);
+  const { logger } = core;
+
+  function snapshotOf(ctx: any) {
+    return {
+      statusCode: ctx.status,
+      getHeader: (name: string) => ctx.response.get(name) || undefined,
+    };
+  }
+
+  function isStream(body: any): boolean {
+    return !!body && typeof body.pipe === 'function';
+  }
+
+  function sendCachedResponse(ctx: any, response: CachedResponse): void {
+    ctx.set(response.headers);
+    ctx.status = response.status;
+    ctx.body = response.notModified ? null : response.body;
+  }
+
+  /**
+   * Point ctx at a response that is never sent, so downstream middleware can run again
+   * after the cached response went out
+   */
+  function detachResponse(ctx: any): void {
+    const res = new ServerResponse(ctx.req);
+    const response = Object.create(ctx.app.response);
+    Object.assign(response, { app: ctx.app, req: ctx.req, res, ctx, request: ctx.request });
+    ctx.res = res;
+    ctx.response = response;
+    ctx.request.response = response;
+  }
+
+  function refreshInBackground(ctx: any, key: string, ttl: number, next: any): void {
+    core.revalidateInBackground(
+      key,
+      () =>
+        new Promise<void>((resolve, reject) => {
+          // Run downstream once Koa has written the stale response
+          setImmediate(async () => {
+            try {
+              detachResponse(ctx);
+              await next();
+              if (!isStream(ctx.body)) {
+                await core.storeResponse(ctx.request, snapshotOf(ctx), ctx.body ?? '', ttl);
+              }
+              resolve();
+            } catch (error) {
+              reject(error);
+            }
+          });
+        }),
+    );
+  }
+
+  async function middleware(ctx: any, next: any) {
+    const decision = await core.handle(ctx.request);
+
+    if (decision.type === 'pass') return next();
+
+    if (decision.type === 'hit') {
+      sendCachedResponse(ctx, decision.response);
+      // Stale-while-revalidate: refresh in background
+      if (decision.stale) refreshInBackground(ctx, decision.key, decision.ttl, next);
+      return;
+    }
+
+    const { capture } = decision;
+    ctx.set(decision.headers);
+
+    try {
+      await next();
+    } catch (e) {
+      capture.abort();
+      throw e;
+    }
+
+    const body = ctx.body;
+    if (isStream(body)) {
+      logger.debug && logger.debug('[stream response not cached]', decision.key);
+      capture.abort();
+      return;
+    }
+
+    const snapshot = snapshotOf(ctx);
+    ctx.set(core.validatorHeaders(snapshot, body ?? ''));
+    await capture.complete(snapshot, body ?? '');
+  }
+
+  // Attach utility methods to middleware function
+  return Object.assign(middleware, {
+    clearCache: core.clearCache,
+    invalidateTags: core.invalidateTags,
+    getCacheStats: core.getCacheStats,
+    wrap: core.wrap,
+    memoize: core.memoize,
+    close: core.close,
+  });
+}
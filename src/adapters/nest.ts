@@ -0,0 +1,220 @@
+import type {
+  CallHandler,
+  ExecutionContext,
+  NestInterceptor,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import type { Observable, Subscriber, Subscription, TeardownLogic } from 'rxjs';
+
+import type { ApiCacheOptions } from '../config';
+import {
+  createCacheCore,
+  type CacheCore,
+  type MemoizeOptions,
+  type ResponseSnapshot,
+  type WrapOptions,
+} from '../core';
+
+/**
+ * Cache settings declared on a controller class or route handler
+ */
+export interface RouteCacheMetadata {
+  ttl?: number;
+  tags?: string[];
+  noCache?: boolean;
+}
+
+const routeMetadata = new WeakMap<object, RouteCacheMetadata>();
+
+function cacheMetadata(meta: RouteCacheMetadata) {
+  return (target: object, _key?: string | symbol, descriptor?: PropertyDescriptor): void => {
+    // Method decorators receive the handler in the descriptor, class decorators the class
+    const owner = descriptor?.value ?? target;
+    routeMetadata.set(owner, { ...routeMetadata.get(owner), ...meta });
+  };
+}
+
+/** Cache the route for `seconds` instead of the default ttl */
+export const CacheTtl = (seconds: number) => cacheMetadata({ ttl: seconds });
+
+/** Tag cached responses; on write routes, invalidate entries carrying these tags */
+export const CacheTags = (...tags: string[]) => cacheMetadata({ tags });
+
+/** Never serve or store the route from the cache */
+export const NoCache = () => cacheMetadata({ noCache: true });
+
+/**
+ * Resolve the cache metadata for a handler, handler settings winning over its class
+ */
+export function getRouteCacheMetadata(handler: object, controller?: object): RouteCacheMetadata {
+  return {
+    ...(controller ? routeMetadata.get(controller) : undefined),
+    ...routeMetadata.get(handler),
+  };
+}
+
+type ObservableConstructor = new (
+  subscribe: (subscriber: Subscriber<any>) => TeardownLogic,
+) => Observable<any>;
+
+function setHeaders(res: any, headers: Record<string, string | string[]>): void {
+  for (const [name, value] of Object.entries(headers)) {
+    if (typeof res.setHeader === 'function') res.setHeader(name, value);
+    else if (typeof res.header === 'function') res.header(name, value);
+  }
+}
+
+function snapshotOf(res: any): ResponseSnapshot {
+  return {
+    statusCode: res.statusCode,
+    getHeader: (name: string) => res.getHeader?.(name),
+  };
+}
+
+/**
+ * NestJS interceptor caching the value a route handler's observable emits. Register it
+ * with `app.useGlobalInterceptors(new ApiCacheInterceptor(options))`, `@UseInterceptors(...)`
+ * or an `APP_INTERCEPTOR` provider. Nest still serializes the value and sets the status,
+ * so compression and ETags are left to the HTTP platform.
+ */
+export class ApiCacheInterceptor implements NestInterceptor, OnModuleDestroy {
+  private readonly routes = new WeakMap<object, RouteCacheMetadata>();
+  private readonly core: CacheCore;
+
+  constructor(userOptions: ApiCacheOptions = {}) {
+    const meta = (req: any) => this.routes.get(req);
+    this.core = createCacheCore({
+      ...userOptions,
+      compression: false,
+      etag: false,
+      getPerRouteTtl: (req) => meta(req)?.ttl ?? userOptions.getPerRouteTtl?.(req),
+      skipCachePredicate: (req) => !!meta(req)?.noCache || !!userOptions.skipCachePredicate?.(req),
+      getCacheTags: (req) => meta(req)?.tags ?? userOptions.getCacheTags?.(req),
+      getInvalidationTags: (req) => meta(req)?.tags ?? userOptions.getInvalidationTags?.(req),
+    });
+  }
+
+  clearCache(pattern?: string) {
+    return this.core.clearCache(pattern);
+  }
+
+  invalidateTags(tags: string[]) {
+    return this.core.invalidateTags(tags);
+  }
+
+  getCacheStats() {
+    return this.core.getCacheStats();
+  }
+
+  wrap<T>(key: string, fn: () => T | Promise<T>, options?: WrapOptions) {
+    return this.core.wrap(key, fn, options);
+  }
+
+  memoize<A extends unknown[], R>(fn: (...args: A) => R | Promise<R>, options?: MemoizeOptions<A>) {
+    return this.core.memoize(fn, options);
+  }
+
+  close() {
+    return this.core.close();
+  }
+
+  // Nest lifecycle hook, called on app.close() for interceptors registered as providers
+  onModuleDestroy() {
+    return this.close();
+  }
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const source = next.handle();
+    if (context.getType() !== 'http') return source;
+
+    const http = context.switchToHttp();
+    const req = http.getRequest();
+    const res = http.getResponse();
+    this.routes.set(req, getRouteCacheMetadata(context.getHandler(), context.getClass()));
+
+    // Use the handler's Observable implementation so rxjs stays the application's dependency
+    const ObservableCtor = source.constructor as ObservableConstructor;
+    return new ObservableCtor((subscriber) => {
+      let subscription: Subscription | undefined;
+      let abort: (() => void) | undefined;
+
+      this.core.handle(req).then(
+        (decision) => {
+          if (subscriber.closed) return;
+
+          if (decision.type === 'pass') {
+            subscription = source.subscribe(subscriber);
+            return;
+          }
+
+          if (decision.type === 'hit') {
+            setHeaders(res, decision.response.headers);
+            // Stale-while-revalidate: re-run the handler in background
+            if (decision.stale)
+              this.refreshInBackground(req, res, source, decision.key, decision.ttl);
+            subscriber.next(decision.response.body);
+            subscriber.complete();
+            return;
+          }
+
+          const { capture } = decision;
+          abort = () => capture.abort();
+          setHeaders(res, decision.headers);
+
+          let emitted = false;
+          let last: any;
+          subscription = source.subscribe({
+            next: (value) => {
+              emitted = true;
+              last = value;
+              subscriber.next(value);
+            },
+            error: (error) => {
+              capture.abort();
+              subscriber.error(error);
+            },
+            complete: () => {
+              if (emitted) void capture.complete(snapshotOf(res), last);
+              else capture.abort();
+              subscriber.complete();
+            },
+          });
+        },
+        (error) => subscriber.error(error),
+      );
+
+      return () => {
+        subscription?.unsubscribe();
+        abort?.();
+      };
+    });
+  }
+
+  private refreshInBackground(
+    req: any,
+    res: any,
+    source: Observable<any>,
+    key: string,
+    ttl: number,
+  ): void {
+    this.core.revalidateInBackground(
+      key,
+      () =>
+        new Promise<void>((resolve, reject) => {
+          let emitted = false;
+          let last: any;
+          source.subscribe({
+            next: (value) => {
+              emitted = true;
+              last = value;
+            },
+            error: reject,
+            complete: () => {
+              if (!emitted) return resolve();
+              this.core.storeResponse(req, snapshotOf(res), last, ttl).then(resolve, reject);
+            },
+          });
+        }),
+    );
+  }
+}
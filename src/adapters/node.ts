@@ -0,0 +1,160 @@
+import { ServerResponse, type IncomingMessage } from 'http';
+import { Readable } from 'stream';
+
+import type { ApiCacheOptions } from '../config';
+import { createCacheCore, type CachedResponse } from '../core';
+import { parseBody } from '../utils/body';
+import { captureStreamedBody, captureWriteHead } from '../utils/responseCapture';
+
+export type NodeHandler = (req: IncomingMessage, res: ServerResponse) => unknown;
+
+function readRequestBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * The request as seen by a handler: when the cache consumed the body, a stream inheriting
+ * every request property (and instanceof IncomingMessage) that replays the buffered body
+ */
+function requestForHandler(req: any): any {
+  if (!req.rawBody) return req;
+  const replay = Object.setPrototypeOf(new Readable({ read() {} }), req);
+  replay.push(req.rawBody);
+  replay.push(null);
+  return replay;
+}
+
+/**
+ * Wrap a bare `http.createServer` handler with the caching pipeline.
+ * Responses are captured from writeHead/write/end. For write methods the request body is
+ * read up front and exposed as `req.body` (parsed) and `req.rawBody`; handlers reading the
+ * request stream receive the same body.
+ */
+export function httpApiCache(handler: NodeHandler, userOptions: ApiCacheOptions = {}) {
+  const core = createCacheCore(userOptions);
+  const { options, logger } = core;
+
+  async function prepareRequest(req: any): Promise<void> {
+    const url = new URL(req.url || '/', 'http://placeholder');
+    if (req.query === undefined) req.query = Object.fromEntries(url.searchParams);
+
+    const method = (req.method || 'GET').toUpperCase();
+    if (['POST', 'PUT', 'PATCH', 'DELETE'].includes(method) && req.body === undefined) {
+      req.rawBody = await readRequestBody(req);
+      req.body = parseBody(req.rawBody.toString('utf8'), req.headers['content-type'] ?? '');
+    }
+  }
+
+  function sendCachedResponse(res: ServerResponse, response: CachedResponse): void {
+    if (res.headersSent) return;
+
+    for (const [name, value] of Object.entries(response.headers)) res.setHeader(name, value);
+    if (response.notModified) {
+      res.statusCode = 304;
+      res.end();
+      return;
+    }
+
+    let payload = response.body;
+    if (payload !== undefined && typeof payload !== 'string' && !Buffer.isBuffer(payload)) {
+      payload = JSON.stringify(payload);
+      if (!res.getHeader('content-type')) res.setHeader('content-type', 'application/json');
+    }
+    res.statusCode = response.status;
+    res.end(payload);
+  }
+
+  /**
+   * Capture a response into onEnd, with headers from writeHead visible to getHeader
+   */
+  function captureResponse(res: ServerResponse, onEnd: (body: Buffer | undefined) => void): void {
+    captureWriteHead(res);
+    captureStreamedBody(res, options.maxPayloadSize, onEnd);
+  }
+
+  function refreshInBackground(req: any, key: string, ttl: number): void {
+    core.revalidateInBackground(
+      key,
+      () =>
+        new Promise<void>((resolve, reject) => {
+          // A response that is never attached to a socket collects the fresh data
+          const mockRes = new ServerResponse(req);
+          captureResponse(mockRes, (body) => {
+            if (!body) return resolve();
+            core.storeResponse(req, mockRes, body, ttl).then(resolve, reject);
+          });
+          Promise.resolve()
+            .then(() => handler(requestForHandler(req), mockRes))
+            .catch(reject);
+        }),
+    );
+  }
+
+  async function run(req: any, res: ServerResponse): Promise<void> {
+    await prepareRequest(req);
+    const decision = await core.handle(req);
+
+    if (decision.type === 'pass') {
+      await handler(requestForHandler(req), res);
+      return;
+    }
+
+    if (decision.type === 'hit') {
+      sendCachedResponse(res, decision.response);
+      // Stale-while-revalidate: refresh in background
+      if (decision.stale) refreshInBackground(req, decision.key, decision.ttl);
+      return;
+    }
+
+    const { key, capture } = decision;
+    for (const [name, value] of Object.entries(decision.headers)) res.setHeader(name, value);
+
+    captureResponse(res, (body) => {
+      if (body === undefined) {
+        logger.warn &&
+          logger.warn('[payload too large for cache]', { key, maxSize: options.maxPayloadSize });
+        capture.abort();
+        return;
+      }
+      if (!res.headersSent) {
+        for (const [name, value] of Object.entries(core.validatorHeaders(res, body))) {
+          res.setHeader(name, value);
+        }
+      }
+      void capture.complete(res, body);
+    });
+
+    // A response that is torn down without finishing must not leave waiters hanging
+    res.once('close', () => capture.abort());
+
+    try {
+      await handler(requestForHandler(req), res);
+    } catch (e) {
+      capture.abort();
+      throw e;
+    }
+  }
+
+  function cachedHandler(req: IncomingMessage, res: ServerResponse): void {
+    run(req, res).catch((error) => {
+      logger.error && logger.error('[request failed]', error);
+      if (!res.headersSent) res.statusCode = 500;
+      if (!res.writableEnded) res.end();
+    });
+  }
+
+  // Attach utility methods to the wrapped handler
+  return Object.assign(cachedHandler, {
+    clearCache: core.clearCache,
+    invalidateTags: core.invalidateTags,
+    getCacheStats: core.getCacheStats,
+    wrap: core.wrap,
+    memoize: core.memoize,
+    close: core.close,
+  });
+}
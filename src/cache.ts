@@ -0,0 +1,18 @@
+import type { ApiCacheOptions } from './config';
+import { createCacheCore } from './core';
+
+/**
+ * Cache for service-layer calls (DB lookups, third-party APIs) outside any HTTP framework.
+ * HTTP adapters expose the same methods, sharing their memory store with the response cache.
+ */
+export function createCache(userOptions: ApiCacheOptions = {}) {
+  const core = createCacheCore(userOptions);
+  return {
+    wrap: core.wrap,
+    memoize: core.memoize,
+    invalidateTags: core.invalidateTags,
+    clearCache: core.clearCache,
+    getCacheStats: core.getCacheStats,
+    close: core.close,
+  };
+}
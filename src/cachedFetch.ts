@@ -0,0 +1,277 @@
+import type { ApiCacheOptions } from './config';
+import { createCacheCore } from './core';
+import type { CacheValue } from './store/memoryStore';
+import { getResponseFreshness, parseCacheControl } from './utils/cacheControl';
+import { buildVaryFingerprint, parseVary } from './utils/keyGenerator';
+
+export interface CachedFetchOptions extends ApiCacheOptions {
+  // Underlying fetch implementation (default: globalThis.fetch)
+  fetch?: typeof fetch;
+}
+
+type FetchInput = string | URL | Request;
+
+// Headers that describe the wire encoding, not the decoded body we store
+const UNSTORED_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding', 'set-cookie'];
+
+function headersToRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (!UNSTORED_HEADERS.includes(name)) record[name] = value;
+  });
+  return record;
+}
+
+function requestHeaders(request: Request) {
+  return { headers: Object.fromEntries(request.headers) };
+}
+
+/**
+ * A fetch that caches upstream GET responses in the L1/L2 stores. Freshness comes from the
+ * upstream Cache-Control / Expires headers (falling back to `ttl`); stale entries with an
+ * ETag or Last-Modified are revalidated with a conditional request.
+ */
+export function createCachedFetch(userOptions: CachedFetchOptions = {}) {
+  const { fetch: fetchImpl = globalThis.fetch, ...cacheOptions } = userOptions;
+  const core = createCacheCore(cacheOptions);
+  const { options, logger } = core;
+
+  let hits = 0;
+  let misses = 0;
+  const pendingFetches = new Map<string, Promise<CacheValue<Buffer> | undefined>>();
+
+  function baseKeyFor(request: Request): string {
+    return `fetch:${request.method}:${request.url}`;
+  }
+
+  function variantKey(request: Request, vary: string[]): string {
+    const fingerprint = buildVaryFingerprint(requestHeaders(request), vary);
+    return fingerprint ? `${baseKeyFor(request)}@${fingerprint}` : baseKeyFor(request);
+  }
+
+  /**
+   * Resolve the stored entry for a request, following a Vary index entry
+   */
+  async function lookup(request: Request) {
+    const baseKey = baseKeyFor(request);
+    const found = await core.readThrough<Buffer>(baseKey);
+    const vary = [...options.varyHeaders, ...(found?.cached.vary ?? [])];
+    const key = vary.length ? variantKey(request, vary) : baseKey;
+    if (key === baseKey) return { key, cached: found?.cached };
+    return { key, cached: (await core.readThrough<Buffer>(key))?.cached };
+  }
+
+  function remainingTtl(entry: CacheValue): number {
+    return entry.ttl - Math.floor((Date.now() - entry.createdAt) / 1000);
+  }
+
+  function toResponse(entry: CacheValue<Buffer>, cacheStatus: string[]): Response {
+    const headers = new Headers(entry.headers as Record<string, string>);
+    headers.set('age', String(Math.max(0, Math.floor((Date.now() - entry.createdAt) / 1000))));
+    if (options.cacheStatusHeader) {
+      headers.set('cache-status', [options.cacheName, ...cacheStatus].join('; '));
+    }
+    const empty = entry.statusCode === 204 || entry.statusCode === 304;
+    return new Response(empty ? null : new Uint8Array(entry.value), {
+      status: entry.statusCode ?? 200,
+      headers,
+    });
+  }
+
+  /**
+   * Storage decision for an upstream response: freshness lifetime and how long to keep it
+   */
+  function storagePlan(request: Request, response: Response) {
+    if (!options.cacheableStatuses.includes(response.status)) return undefined;
+
+    const cacheControl = response.headers.get('cache-control');
+    const cc = parseCacheControl(cacheControl);
+    // Entries are shared by every caller (RFC 9111 §3.5)
+    if (cc['no-store'] !== undefined || cc['private'] !== undefined) return undefined;
+    const sharedAuthorized =
+      cc['public'] !== undefined ||
+      cc['s-maxage'] !== undefined ||
+      cc['must-revalidate'] !== undefined;
+    if (request.headers.has('authorization') && !sharedAuthorized) return undefined;
+    if (parseVary(response.headers.get('vary')) === '*') return undefined;
+
+    const hasValidator = response.headers.has('etag') || response.headers.has('last-modified');
+    const freshness =
+      cc['no-cache'] !== undefined
+        ? 0
+        : (getResponseFreshness({
+            cacheControl,
+            expires: response.headers.get('expires') ?? undefined,
+            date: response.headers.get('date') ?? undefined,
+          }) ?? options.ttl);
+
+    // Entries with a validator outlive their freshness so they can be revalidated
+    const storageTtl = freshness + (hasValidator ? options.ttl : 0);
+    if (storageTtl <= 0) return undefined;
+    return { freshness, storageTtl };
+  }
+
+  /**
+   * Buffer and store a cacheable response; undefined (body untouched) when it is not cacheable
+   */
+  async function store(
+    request: Request,
+    response: Response,
+  ): Promise<CacheValue<Buffer> | undefined> {
+    const plan = storagePlan(request, response);
+    const length = Number(response.headers.get('content-length') ?? 0);
+    if (!plan || length > options.maxPayloadSize) return undefined;
+
+    const body = Buffer.from(await response.arrayBuffer());
+    const entry: CacheValue<Buffer> = {
+      value: body,
+      createdAt: Date.now(),
+      ttl: plan.freshness,
+      statusCode: response.status,
+      headers: headersToRecord(response.headers),
+    };
+    const etag = response.headers.get('etag');
+    if (etag) entry.etag = etag;
+    if (body.length > options.maxPayloadSize) {
+      logger.warn &&
+        logger.warn('[payload too large for cache]', {
+          size: body.length,
+          maxSize: options.maxPayloadSize,
+        });
+      return entry;
+    }
+
+    const vary = parseVary(response.headers.get('vary'));
+    const extraVary = vary === '*' ? [] : vary.filter((h) => !options.varyHeaders.includes(h));
+    try {
+      if (extraVary.length) {
+        const index: CacheValue = {
+          value: null,
+          createdAt: Date.now(),
+          ttl: plan.storageTtl,
+          vary: extraVary,
+        };
+        await core.writeThrough(baseKeyFor(request), index, plan.storageTtl);
+      }
+      await core.writeThrough(
+        variantKey(request, [...options.varyHeaders, ...extraVary]),
+        entry,
+        plan.storageTtl,
+      );
+    } catch (e) {
+      logger.warn && logger.warn('[cache set failed]', e);
+    }
+    return entry;
+  }
+
+  /**
+   * Fetch from upstream, sending the validators of a stale entry stored under key.
+   * A 304 refreshes that entry; other responses are stored when cacheable, or returned as-is.
+   */
+  async function fetchUpstream(
+    request: Request,
+    key: string,
+    stale?: CacheValue<Buffer>,
+  ): Promise<{ response?: Response; entry?: CacheValue<Buffer>; revalidated: boolean }> {
+    const headers = new Headers(request.headers);
+    const lastModified = stale?.headers?.['last-modified'];
+    if (stale?.etag) headers.set('if-none-match', stale.etag);
+    if (typeof lastModified === 'string') headers.set('if-modified-since', lastModified);
+
+    const response = await fetchImpl(stale ? new Request(request, { headers }) : request);
+
+    if (stale && response.status === 304) {
+      // The 304 carries updated freshness headers for the stored response
+      const merged = new Headers(stale.headers as Record<string, string>);
+      response.headers.forEach((value, name) => merged.set(name, value));
+      const plan = storagePlan(
+        request,
+        new Response(null, { status: stale.statusCode, headers: merged }),
+      );
+      const entry: CacheValue<Buffer> = {
+        ...stale,
+        createdAt: Date.now(),
+        ttl: plan?.freshness ?? stale.ttl,
+        headers: headersToRecord(merged),
+      };
+      try {
+        await core.writeThrough(key, entry, plan?.storageTtl ?? options.ttl);
+      } catch (e) {
+        logger.warn && logger.warn('[cache set failed]', e);
+      }
+      return { entry, revalidated: true };
+    }
+
+    const entry = await store(request, response);
+    return entry ? { entry, revalidated: false } : { response, revalidated: false };
+  }
+
+  async function cachedFetch(input: FetchInput, init?: RequestInit): Promise<Response> {
+    const request = new Request(input, init);
+    const cc = parseCacheControl(request.headers.get('cache-control'));
+    const conditional =
+      request.headers.has('if-none-match') || request.headers.has('if-modified-since');
+
+    // Only plain GETs are cacheable; conditional and no-store requests go straight upstream
+    if (request.method !== 'GET' || conditional || cc['no-store'] !== undefined) {
+      return fetchImpl(request);
+    }
+
+    const { key, cached } = await lookup(request);
+    const revalidate = cc['no-cache'] !== undefined || cc['max-age'] === '0';
+
+    if (cached && !revalidate) {
+      hits++;
+      if (remainingTtl(cached) > 0) {
+        return toResponse(cached, ['hit', `ttl=${remainingTtl(cached)}`]);
+      }
+
+      // Stale-while-revalidate: serve the stale copy and refresh in background,
+      // unless upstream requires revalidation before reuse
+      const storedCc = parseCacheControl(cached.headers?.['cache-control']);
+      const mustRevalidate =
+        storedCc['no-cache'] !== undefined || storedCc['must-revalidate'] !== undefined;
+      if (options.staleWhileRevalidate && !mustRevalidate) {
+        core.revalidateInBackground(key, async () => {
+          await fetchUpstream(request.clone(), key, cached);
+        });
+        return toResponse(cached, ['hit', `ttl=${remainingTtl(cached)}`]);
+      }
+    } else {
+      misses++;
+    }
+
+    // Request coalescing: identical concurrent requests share one upstream call
+    const pending = pendingFetches.get(key);
+    if (pending) {
+      const entry = await pending;
+      if (entry) return toResponse(entry, ['hit', 'detail=coalesced']);
+    }
+
+    let passthrough: Response | undefined;
+    let revalidated = false;
+    const promise = fetchUpstream(request, key, cached).then((result) => {
+      passthrough = result.response;
+      revalidated = result.revalidated;
+      return result.entry;
+    });
+    pendingFetches.set(key, promise);
+    try {
+      const entry = await promise;
+      if (passthrough) return passthrough;
+      const status = revalidated ? ['fwd=stale', 'fwd-status=304'] : ['fwd=miss'];
+      return toResponse(entry!, status);
+    } finally {
+      if (pendingFetches.get(key) === promise) pendingFetches.delete(key);
+    }
+  }
+
+  return Object.assign(cachedFetch, {
+    clearCache: () => core.clearCache('fetch:*'),
+    getCacheStats: () => {
+      const { keys, evictions } = core.getCacheStats();
+      return { hits, misses, keys, evictions };
+    },
+    close: core.close,
+  });
+}
@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+import http from 'http';
+import path from 'path';
+import { parseArgs } from 'util';
+
+import { createCachingProxy, type CachingProxyOptions } from './proxy';
+
+const USAGE = `Usage: universal-api-cache proxy --upstream <url> [options]
+
+Run a caching reverse proxy in front of an HTTP service.
+
+Options:
+  --upstream <url>   Service to forward requests to (or "upstream" in the config file)
+  --port <port>      Port to listen on (default: 8080)
+  --host <host>      Interface to listen on (default: all interfaces)
+  --config <file>    JSON or JavaScript module exporting apiCache options
+  -h, --help         Show this help
+`;
+
+export interface ProxyCommand {
+  options: CachingProxyOptions;
+  port: number;
+  host?: string;
+}
+
+/**
+ * Load apiCache options from a JSON file or a module exporting them (CommonJS or default export)
+ */
+export function loadConfigFile(file: string): Record<string, any> {
+  const resolved = path.resolve(file);
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const loaded = require(resolved);
+  const config = loaded && loaded.__esModule ? loaded.default : loaded;
+  if (!config || typeof config !== 'object') {
+    throw new Error(`Config file ${file} must export an options object`);
+  }
+  return config;
+}
+
+/**
+ * Parse the `proxy` command line; flags override `upstream`/`port`/`host` from the config file
+ */
+export function parseProxyArgs(argv: string[]): ProxyCommand {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      upstream: { type: 'string' },
+      port: { type: 'string' },
+      host: { type: 'string' },
+      config: { type: 'string' },
+    },
+  });
+
+  const {
+    port: configPort,
+    host: configHost,
+    ...config
+  } = values.config ? loadConfigFile(values.config) : {};
+  const upstream = values.upstream ?? config.upstream;
+  if (!upstream) throw new Error('Missing --upstream');
+  new URL(upstream); // throws on an invalid URL
+
+  const port = Number(values.port ?? configPort ?? 8080);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${values.port ?? configPort}`);
+  }
+
+  return {
+    options: { ...config, upstream },
+    port,
+    host: values.host ?? configHost,
+  };
+}
+
+export function main(argv = process.argv.slice(2)): void {
+  const [command, ...rest] = argv;
+  if (!command || argv.some((arg) => arg === '-h' || arg === '--help')) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (command !== 'proxy') {
+    process.stderr.write(`Unknown command: ${command}\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let parsed: ProxyCommand;
+  try {
+    parsed = parseProxyArgs(rest);
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const server = http.createServer(createCachingProxy(parsed.options));
+  server.listen(parsed.port, parsed.host, () => {
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : parsed.port;
+    process.stdout.write(
+      `Caching proxy listening on ${parsed.host ?? '0.0.0.0'}:${port} -> ${parsed.options.upstream}\n`,
+    );
+  });
+
+  const shutdown = () => server.close(() => process.exit(0));
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+if (require.main === module) main();
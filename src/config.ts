@@ -1,3 +1,11 @@
+import type { CacheStore, NamedCacheStore } from './store/cacheStore';
+import type { MemoryStoreOptions } from './store/memoryStore';
+import type { RedisClusterOptions, RedisSentinelOptions } from './store/redisStore';
+import type { CacheSerializer } from './store/serializers';
+import type { CompressionOptions } from './utils/compression';
+import type { GraphQLCacheOptions } from './utils/graphql';
+import type { InvalidationBusOptions } from './utils/invalidationBus';
+
 export type CacheMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 
 export interface InvalidationRule {
@@ -8,6 +16,7 @@ export interface InvalidationRule {
   
   // Invalidation targets
   invalidatePatterns: string[]; // Cache key patterns to invalidate
+  invalidateTags?: string[]; // Entry tags to invalidate, with {placeholder} support
   invalidateMethods?: CacheMethod[]; // Which cached methods to invalidate (default: ['GET'])
   respectUserScope?: boolean; // Whether to only invalidate for the same user (default: true)
   
@@ -43,12 +52,34 @@ export interface ApiCacheOptions {
   ttl?: number; // seconds
   methods?: CacheMethod[];
   redisUrl?: string;
+  redisCluster?: RedisClusterOptions; // connect to a Redis Cluster instead of redisUrl
+  redisSentinel?: RedisSentinelOptions; // find the Redis master through Sentinel instead of redisUrl
+  namespace?: string; // Redis keys are stored as `<namespace>:<key>`; isolates apps sharing a Redis
+  redisIndex?: boolean; // index Redis keys by path prefix, user and tag instead of SCANning on invalidation
+  serializer?: CacheSerializer; // wire format for out-of-process stores (default: JSON)
   useMemory?: boolean; // L1
+  memory?: MemoryStoreOptions; // L1 size limits (maxEntries, maxBytes) with LRU eviction
   useRedis?: boolean; // L2
+  stores?: (CacheStore | NamedCacheStore)[]; // custom tiers in lookup order; replace useMemory/useRedis
   invalidateOnWrite?: boolean;
   staleWhileRevalidate?: boolean;
   excludePaths?: string[]; // path prefixes
   maxPayloadSize?: number; // bytes
+  compression?: boolean | CompressionOptions; // compress stored bodies above a size threshold
+  cacheHeaders?: string[]; // response headers stored with the entry and replayed on hits
+  varyHeaders?: string[]; // request headers always included in the cache key
+  cacheableStatuses?: number[]; // response statuses stored with the normal ttl (default: 2xx)
+  negativeTtl?: number; // seconds; when set, negativeCacheStatuses are cached with this ttl
+  negativeCacheStatuses?: number[]; // statuses eligible for negative caching (default: 404, 410)
+  // RFC 9111: request no-cache/max-age=0 revalidates, no-store bypasses; response
+  // no-store/private/no-cache skip storage and max-age/s-maxage/Expires override ttl
+  respectCacheControl?: boolean;
+  etag?: boolean; // send ETag/Last-Modified and answer conditional requests with 304 from cache
+  cacheStatusHeader?: boolean; // send RFC 9211 Cache-Status and Age headers
+  cacheName?: string; // cache identifier used in Cache-Status
+  exposeCacheKey?: boolean; // debug: send the cache key as X-Cache-Key
+  // Final say on whether a captured response is stored
+  shouldCacheResponse?: (req: any, res: any, body: any) => boolean;
   skipCachePredicate?: (req: any) => boolean;
   disableAuthCaching?: boolean; // if true, disable caching when req.user exists
   logger?: {
@@ -63,30 +94,69 @@ export interface ApiCacheOptions {
   cachePostPredicate?: (req: any) => boolean;
   // Provide extra invalidation patterns to run for write operations
   getInvalidationPatterns?: (req: any) => string[] | undefined;
+  // Tags stored with a cached response
+  getCacheTags?: (req: any) => string[] | undefined;
+  // Tags a write invalidates; when returned they replace the URL-based invalidation
+  getInvalidationTags?: (req: any) => string[] | undefined;
   
   // Pattern-based invalidation
   invalidation?: InvalidationOptions;
+  // Replay invalidations on the local (memory) stores of every instance, over Redis pub/sub by default
+  invalidationBus?: boolean | InvalidationBusOptions;
+
+  // GraphQL mode: cache query operations by normalized document, invalidate on mutations
+  graphql?: boolean | GraphQLCacheOptions;
 }
 
-export const defaultConfig: Required<
-  Omit<
-    ApiCacheOptions,
-    'skipCachePredicate' | 'logger' | 'getUserId' | 'getPerRouteTtl' | 'cachePostPredicate' | 'getInvalidationPatterns' | 'invalidation'
-  >
-> &
-  Pick<
-    ApiCacheOptions,
-    'skipCachePredicate' | 'logger' | 'getUserId' | 'getPerRouteTtl' | 'cachePostPredicate' | 'getInvalidationPatterns' | 'invalidation'
-  > = {
+// Options without a meaningful default stay optional on defaultConfig
+type OptionalConfigKeys =
+  | 'skipCachePredicate'
+  | 'logger'
+  | 'getUserId'
+  | 'getPerRouteTtl'
+  | 'cachePostPredicate'
+  | 'getInvalidationPatterns'
+  | 'getCacheTags'
+  | 'getInvalidationTags'
+  | 'invalidation'
+  | 'invalidationBus'
+  | 'negativeTtl'
+  | 'serializer'
+  | 'redisCluster'
+  | 'redisSentinel'
+  | 'namespace'
+  | 'stores'
+  | 'shouldCacheResponse';
+
+export const defaultConfig: Required<Omit<ApiCacheOptions, OptionalConfigKeys>> &
+  Pick<ApiCacheOptions, OptionalConfigKeys> = {
   ttl: 60,
   methods: ['GET', 'POST'],
   redisUrl: 'redis://localhost:6379',
+  redisCluster: undefined,
+  redisSentinel: undefined,
+  namespace: undefined,
+  redisIndex: false,
   useMemory: true,
+  memory: {},
   useRedis: false,
   invalidateOnWrite: true,
   staleWhileRevalidate: true,
   excludePaths: [],
   maxPayloadSize: 1024 * 1024, // 1MB
+  compression: false,
+  cacheHeaders: ['content-type', 'content-language', 'content-disposition', 'link', 'vary'],
+  varyHeaders: [],
+  cacheableStatuses: Array.from({ length: 100 }, (_, i) => 200 + i), // 2xx
+  negativeTtl: undefined,
+  serializer: undefined,
+  stores: undefined,
+  negativeCacheStatuses: [404, 410],
+  respectCacheControl: false,
+  etag: true,
+  cacheStatusHeader: true,
+  cacheName: 'universal-api-cache',
+  exposeCacheKey: false,
   skipCachePredicate: () => false,
   disableAuthCaching: false,
   logger: console,
@@ -94,5 +164,10 @@ export const defaultConfig: Required<
   getPerRouteTtl: () => undefined,
   cachePostPredicate: () => false,
   getInvalidationPatterns: () => undefined,
+  getCacheTags: undefined,
+  getInvalidationTags: undefined,
+  shouldCacheResponse: undefined,
   invalidation: undefined,
+  invalidationBus: undefined,
+  graphql: false,
 };
@@ -0,0 +1,821 @@
+import type { ApiCacheOptions } from './config';
+import { defaultConfig } from './config';
+import { deleteMany, isNamedCacheStore, type CacheStore } from './store/cacheStore';
+import { MemoryStore, type CacheValue } from './store/memoryStore';
+import { RedisInvalidationTransport } from './store/redisInvalidationTransport';
+import { RedisStore } from './store/redisStore';
+import {
+  getResponseFreshness,
+  requestForbidsStorage,
+  requestRequiresRevalidation,
+  responseForbidsStorage,
+} from './utils/cacheControl';
+import { acceptsEncoding, compressCacheValue, decompressBody } from './utils/compression';
+import { computeEtag, isNotModified } from './utils/etag';
+import {
+  collectTypenameTags,
+  createMutationRules,
+  KnownDocuments,
+  parseGraphQLRequest,
+  parseGraphQLResult,
+  type GraphQLOperation,
+} from './utils/graphql';
+import { getPayloadSize, sha256 } from './utils/hash';
+import { PatternInvalidationEngine } from './utils/invalidation';
+import { InvalidationBus, type InvalidationMessage } from './utils/invalidationBus';
+import { buildCacheKey, normalizeUrl, parseVary } from './utils/keyGenerator';
+import { createLogger } from './utils/logger';
+import { deleteTaggedEntries } from './utils/tags';
+
+export type { CacheStore, NamedCacheStore } from './store/cacheStore';
+
+export type CacheStats = { hits: number; misses: number } & { keys: number; evictions: number };
+
+/**
+ * The parts of a framework response the cache reads when storing it
+ */
+export interface ResponseSnapshot {
+  statusCode?: number;
+  getHeader?(name: string): unknown;
+}
+
+/**
+ * A cache hit rendered independently of any framework
+ */
+export interface CachedResponse {
+  status: number;
+  headers: Record<string, string | string[]>;
+  body: any; // undefined when notModified
+  notModified: boolean;
+}
+
+/**
+ * Handle to the in-flight miss for a key; waiters are released by complete or abort
+ */
+export interface MissCapture {
+  complete(res: ResponseSnapshot, payload: any): Promise<void>;
+  abort(): void;
+}
+
+export type CacheDecision =
+  | { type: 'pass' }
+  | { type: 'hit'; key: string; ttl: number; stale: boolean; response: CachedResponse }
+  | {
+      type: 'miss';
+      key: string;
+      ttl: number;
+      headers: Record<string, string>;
+      capture: MissCapture;
+    };
+
+export interface HandleOptions {
+  // Background refresh: skip the lookup and do not wait for the refresh that issued it
+  refresh?: boolean;
+}
+
+/**
+ * Options for a cached function call
+ */
+export interface WrapOptions {
+  ttl?: number; // seconds, defaults to options.ttl
+  tags?: string[];
+}
+
+export interface MemoizeOptions<A extends unknown[]> {
+  // Cache key for a call; defaults to `memo:<name>:<hash of the arguments>`
+  keyFn?: (...args: A) => string;
+  // Name in the default key (default: the function's name); required for anonymous functions
+  name?: string;
+  ttl?: number;
+  tags?: string[] | ((...args: A) => string[]);
+}
+
+export type CacheCore = ReturnType<typeof createCacheCore>;
+
+/**
+ * Framework-neutral caching pipeline shared by the Express middleware and the adapters
+ */
+export function createCacheCore(userOptions: ApiCacheOptions = {}) {
+  const options = { ...defaultConfig, ...userOptions };
+  const logger = createLogger(options.logger);
+
+  const stores: CacheStore[] = [];
+  // Tier names reported in Cache-Status
+  const tierNames = new Map<CacheStore, string>();
+  if (options.stores) {
+    for (const entry of options.stores) {
+      const store = isNamedCacheStore(entry) ? entry.store : entry;
+      stores.push(store);
+      tierNames.set(store, isNamedCacheStore(entry) ? entry.name : store.constructor.name);
+    }
+  } else {
+    const memory = options.useMemory ? new MemoryStore(options.memory) : undefined;
+    const redis =
+      options.useRedis && options.redisUrl
+        ? new RedisStore(options.redisUrl, {
+            serializer: options.serializer,
+            keyPrefix: options.namespace ? `${options.namespace}:` : undefined,
+            index: options.redisIndex,
+            cluster: options.redisCluster,
+            sentinel: options.redisSentinel,
+          })
+        : undefined;
+    if (memory) stores.push(memory);
+    if (redis) stores.push(redis);
+    if (redis) void redis.connect();
+    if (memory) tierNames.set(memory, 'memory');
+    if (redis) tierNames.set(redis, 'redis');
+  }
+
+  // Cross-instance invalidation of the local stores
+  const localStores = stores.filter((s) => s.local);
+  const busOptions = options.invalidationBus === true ? {} : options.invalidationBus || undefined;
+  const busFallbackTtl = busOptions?.fallbackTtl ?? 5;
+  const bus = createInvalidationBus();
+  const publish = (message: InvalidationMessage) => void bus?.publish(message);
+
+  // Initialize pattern invalidation engine if configured
+  const invalidationEngine = options.invalidation
+    ? new PatternInvalidationEngine(options.invalidation, logger, publish)
+    : undefined;
+
+  // GraphQL mode: declared mutations become pattern engine rules
+  const graphqlOptions = options.graphql === true ? {} : options.graphql || undefined;
+  const graphqlPaths = graphqlOptions?.paths ?? ['/graphql'];
+  const mutationRules = createMutationRules(graphqlOptions?.mutations);
+  const mutationEngine =
+    invalidationEngine ??
+    new PatternInvalidationEngine(options.invalidation ?? {}, logger, publish);
+  const knownDocuments = new KnownDocuments(graphqlOptions?.maxKnownDocuments ?? 1000);
+
+  let hits = 0;
+  let misses = 0;
+  const pendingRequests = new Map<string, Promise<any>>();
+  // In-flight wrapped calls, shared by identical concurrent callers
+  const pendingCalls = new Map<string, Promise<unknown>>();
+
+  async function readThrough<T>(
+    key: string,
+  ): Promise<{ cached: CacheValue<T>; tier: string } | undefined> {
+    for (const store of stores) {
+      const tier = tierNames.get(store) ?? store.constructor.name;
+      try {
+        const val = await store.get<T>(key);
+        if (val) return { cached: val, tier };
+      } catch (error) {
+        // A failing tier is treated as a miss so the next one (or the handler) serves the request
+        logger.warn && logger.warn('[cache get failed]', { key, tier, error });
+      }
+    }
+    return undefined;
+  }
+
+  async function writeThrough<T>(key: string, value: CacheValue<T>, ttl: number) {
+    // Without the bus, local entries would miss invalidations from other instances
+    const localTtl = bus && !bus.isConnected ? Math.min(ttl, busFallbackTtl) : ttl;
+    await Promise.all(
+      stores.map(async (s) => {
+        try {
+          await s.set<T>(key, value, s.local ? localTtl : ttl);
+        } catch (error) {
+          const tier = tierNames.get(s) ?? s.constructor.name;
+          logger.warn && logger.warn('[cache set failed]', { key, tier, error });
+        }
+      }),
+    );
+  }
+
+  /**
+   * Bus replaying invalidations on localStores, when enabled and a transport is available
+   */
+  function createInvalidationBus(): InvalidationBus | undefined {
+    if (!busOptions || !localStores.length) return undefined;
+    if (!busOptions.transport && options.redisSentinel) {
+      logger.warn &&
+        logger.warn('[invalidation bus needs a transport with redisSentinel, bus disabled]');
+      return undefined;
+    }
+    const url = options.redisCluster?.rootNodes[0] ?? options.redisUrl;
+    const channel = busOptions.channel ?? 'api-cache:invalidation';
+    const transport =
+      busOptions.transport ??
+      new RedisInvalidationTransport(
+        url,
+        options.namespace ? `${options.namespace}:${channel}` : channel,
+      );
+    const created = new InvalidationBus(
+      transport,
+      {
+        apply: applyRemoteInvalidation,
+        // Invalidations may have been missed while the bus was down
+        onStatusChange: () => invalidateStores(localStores, '*'),
+      },
+      logger,
+    );
+    void created.start();
+    return created;
+  }
+
+  /**
+   * Replay another instance's invalidation on the local stores only
+   */
+  async function applyRemoteInvalidation(message: InvalidationMessage) {
+    logger.debug && logger.debug('[remote invalidation]', message);
+    if (message.type === 'pattern') await invalidateStores(localStores, message.pattern);
+    else if (message.type === 'tags') await deleteTaggedEntries(localStores, message.tags);
+    else {
+      await mutationEngine.invalidateMatching(
+        message.pattern,
+        message.methods,
+        localStores,
+        message.userId,
+      );
+    }
+  }
+
+  function cacheKeyFor(req: any, extraVary: string[] = []): string {
+    return buildCacheKey(req, {
+      getUserId: options.getUserId!,
+      varyHeaders: [...options.varyHeaders, ...extraVary],
+    });
+  }
+
+  /**
+   * Resolve the key of the entry that answers this request, following a Vary index entry
+   */
+  async function lookup(req: any): Promise<{ key: string; cached?: CacheValue; tier?: string }> {
+    const baseKey = cacheKeyFor(req);
+    const found = await readThrough<any>(baseKey);
+    if (!found?.cached.vary) return { key: baseKey, ...found };
+
+    const key = cacheKeyFor(req, found.cached.vary);
+    return { key, ...(await readThrough<any>(key)) };
+  }
+
+  /**
+   * RFC 9211 Cache-Status, plus Age on hits and the optional cache key debug header
+   */
+  function statusHeaders(key: string, params: string[], cached?: CacheValue) {
+    const headers: Record<string, string> = {};
+    if (options.cacheStatusHeader) {
+      headers['Cache-Status'] = [options.cacheName, ...params].join('; ');
+    }
+    if (cached) {
+      const age = Math.max(0, Math.floor((Date.now() - cached.createdAt) / 1000));
+      headers['Age'] = String(age);
+    }
+    if (options.exposeCacheKey) headers['X-Cache-Key'] = key;
+    return headers;
+  }
+
+  /**
+   * Store a captured response, remembering the handler's Vary header under the base key
+   */
+  async function storeResponse(
+    req: any,
+    res: ResponseSnapshot,
+    payload: any,
+    ttl: number,
+  ): Promise<void> {
+    const storageTtl = getStorageTtl(req, res, payload, ttl);
+    if (storageTtl === undefined) {
+      logger.debug && logger.debug('[response not cacheable]', { status: res.statusCode });
+      return;
+    }
+
+    // Check payload size before caching
+    const size = getPayloadSize(payload);
+    if (size > options.maxPayloadSize) {
+      logger.warn &&
+        logger.warn('[payload too large for cache]', { size, maxSize: options.maxPayloadSize });
+      return;
+    }
+
+    let entry = buildCacheValue(res, payload, storageTtl);
+    if (options.compression) {
+      const compression = options.compression === true ? {} : options.compression;
+      entry = await compressCacheValue(entry, compression);
+    }
+    const tags = [...(options.getCacheTags?.(req) ?? [])];
+    if (req.graphql && graphqlOptions?.typenameTags !== false) {
+      tags.push(...collectTypenameTags(parseGraphQLResult(payload)));
+    }
+    if (tags.length) entry.tags = tags;
+
+    const baseKey = cacheKeyFor(req);
+    const vary = parseVary(res.getHeader?.('vary'));
+    const extraVary = vary === '*' ? [] : vary.filter((h) => !options.varyHeaders.includes(h));
+    if (!extraVary.length) {
+      await writeThrough(baseKey, entry, storageTtl);
+      return;
+    }
+
+    const index: CacheValue = {
+      value: null,
+      createdAt: Date.now(),
+      ttl: storageTtl,
+      vary: extraVary,
+    };
+    if (tags.length) index.tags = tags;
+    await writeThrough(baseKey, index, storageTtl);
+    await writeThrough(cacheKeyFor(req, extraVary), entry, storageTtl);
+  }
+
+  /**
+   * Parse a request to a GraphQL endpoint and attach it as req.graphql
+   */
+  function graphqlOperationFor(req: any): GraphQLOperation | undefined {
+    if (!graphqlOptions) return undefined;
+    if (!graphqlPaths.includes(normalizeUrl(req.originalUrl || req.url || ''))) return undefined;
+    req.graphql = parseGraphQLRequest(req, knownDocuments);
+    return req.graphql;
+  }
+
+  function shouldBypass(req: any): boolean {
+    const method = (req.method || 'GET').toUpperCase();
+
+    // Check if method is cacheable (GraphQL queries are, whichever transport they use)
+    if (!req.graphql && !options.methods.includes(method as any)) return true;
+
+    // Check excluded paths
+    if (options.excludePaths.some((p) => (req.path || req.url || '').startsWith(p))) return true;
+
+    // Check auth caching disabled
+    if (options.disableAuthCaching && options.getUserId?.(req)) return true;
+
+    // Check custom skip predicate
+    if (options.skipCachePredicate && options.skipCachePredicate(req)) return true;
+
+    return false;
+  }
+
+  async function invalidateStores(targets: CacheStore[], pattern: string) {
+    await Promise.all(
+      targets.map(async (s) => {
+        if (pattern === '*' && s.clear) return s.clear();
+        await deleteMany(s, await s.keys(pattern));
+      }),
+    );
+  }
+
+  async function invalidateByPattern(pattern: string) {
+    await invalidateStores(stores, pattern);
+    publish({ type: 'pattern', pattern });
+  }
+
+  /**
+   * Delete entries stored with any of the given tags
+   */
+  async function invalidateTags(tags: string[]) {
+    await deleteTaggedEntries(stores, tags);
+    publish({ type: 'tags', tags });
+  }
+
+  function getCacheStats(): CacheStats {
+    const storeStats = stores.map((s) => s.stats());
+    const keyCounts = storeStats.reduce((acc, s) => acc + s.keys, 0);
+    const evictions = storeStats.reduce((acc, s) => acc + (s.evictions ?? 0), 0);
+    return { hits, misses, keys: keyCounts, evictions };
+  }
+
+  async function handleInvalidateOnWrite(req: any) {
+    if (!options.invalidateOnWrite) return;
+
+    const method = (req.method || 'GET').toUpperCase();
+
+    // Handle traditional REST write operations
+    if (!['POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) return;
+
+    // Tags declared for the route replace the URL-based rules
+    const tags = options.getInvalidationTags?.(req);
+    if (tags?.length) {
+      await invalidateTags(tags);
+      return;
+    }
+
+    // Declared GraphQL mutations invalidate through their engine rules
+    const operationName = req.graphql?.operationName;
+    if (operationName && graphqlOptions?.mutations?.[operationName]) {
+      const invalidation = options.invalidation ?? {};
+      await mutationEngine.invalidate(
+        req,
+        stores,
+        {
+          ...invalidation,
+          invalidationRules: [...mutationRules, ...(invalidation.invalidationRules ?? [])],
+        },
+        options.getUserId!,
+      );
+      return;
+    }
+
+    // Use pattern-based invalidation if configured
+    if (invalidationEngine && options.invalidation) {
+      try {
+        await invalidationEngine.invalidate(req, stores, options.invalidation, options.getUserId!);
+        return;
+      } catch (error) {
+        logger.warn && logger.warn('[pattern invalidation failed, falling back to legacy]', error);
+      }
+    }
+
+    // Legacy invalidation fallback
+    // Invalidate exact matching cache key
+    const key = buildCacheKey(req, {
+      getUserId: options.getUserId!,
+    });
+    await invalidateByPattern(key);
+
+    // Invalidate related patterns for same path
+    const url = req.originalUrl || req.url || '';
+    const pathOnly = url.split('?')[0] || url;
+    const userId = options.getUserId?.(req) || 'anon';
+
+    // Invalidate GET and POST requests for this path
+    await invalidateByPattern(`GET:${pathOnly}:*:*:${userId}`);
+    await invalidateByPattern(`POST:${pathOnly}:*:*:${userId}`);
+    if (req.graphql) await invalidateByPattern(`GRAPHQL:${pathOnly}:*:*:${userId}`);
+
+    // Custom invalidation patterns
+    const patterns = options.getInvalidationPatterns?.(req);
+    if (patterns?.length) {
+      for (const p of patterns) {
+        await invalidateByPattern(p);
+      }
+    }
+  }
+
+  function collectHeaders(res: ResponseSnapshot): Record<string, string | string[]> {
+    const headers: Record<string, string | string[]> = {};
+    if (typeof res.getHeader !== 'function') return headers;
+
+    for (const name of options.cacheHeaders) {
+      const value = res.getHeader(name);
+      if (value === undefined || value === null) continue;
+      headers[name.toLowerCase()] = Array.isArray(value) ? value.map(String) : String(value);
+    }
+    return headers;
+  }
+
+  function buildCacheValue(res: ResponseSnapshot, payload: any, ttl: number): CacheValue {
+    const cacheVal: CacheValue = {
+      value: payload,
+      createdAt: Date.now(),
+      ttl,
+      statusCode: res.statusCode ?? 200,
+      headers: collectHeaders(res),
+    };
+    if (options.etag) {
+      // Keep a validator the handler already chose so clients see a single ETag
+      const existing = res.getHeader?.('etag');
+      cacheVal.etag = existing ? String(existing) : computeEtag(payload);
+    }
+    return cacheVal;
+  }
+
+  /**
+   * ETag and Last-Modified to send with a fresh response, unless the handler set them. The date
+   * is taken in the same tick as the createdAt of the entry stored from the response.
+   */
+  function validatorHeaders(res: ResponseSnapshot, payload: any): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (!options.etag) return headers;
+    if (!res.getHeader?.('etag')) headers['ETag'] = computeEtag(payload);
+    if (!res.getHeader?.('last-modified')) headers['Last-Modified'] = new Date().toUTCString();
+    return headers;
+  }
+
+  /**
+   * Decide how long a captured response may be stored, or undefined to skip it
+   */
+  function getStorageTtl(
+    req: any,
+    res: ResponseSnapshot,
+    body: any,
+    ttl: number,
+  ): number | undefined {
+    const status = res.statusCode ?? 200;
+    let storageTtl: number | undefined;
+    if (options.cacheableStatuses.includes(status)) {
+      storageTtl = ttl;
+    } else if (
+      options.negativeTtl !== undefined &&
+      options.negativeCacheStatuses.includes(status)
+    ) {
+      storageTtl = options.negativeTtl;
+    }
+    if (storageTtl === undefined) return undefined;
+
+    // Vary: * means no request can ever match the stored response
+    if (parseVary(res.getHeader?.('vary')) === '*') return undefined;
+
+    // GraphQL reports errors with a 200 status
+    if (req.graphql) {
+      const result = parseGraphQLResult(body);
+      if (!result || (Array.isArray(result.errors) && result.errors.length)) return undefined;
+    }
+
+    if (options.respectCacheControl) {
+      const header = (name: string) => res.getHeader?.(name);
+      if (responseForbidsStorage(header('cache-control'))) return undefined;
+      const freshness = getResponseFreshness({
+        cacheControl: header('cache-control'),
+        expires: header('expires'),
+        date: header('date'),
+      });
+      if (freshness !== undefined) {
+        // A zero lifetime means the response is stale on arrival
+        if (freshness <= 0) return undefined;
+        storageTtl = freshness;
+      }
+    }
+
+    if (options.shouldCacheResponse && !options.shouldCacheResponse(req, res, body)) {
+      return undefined;
+    }
+    return storageTtl;
+  }
+
+  /**
+   * Turn a stored entry into the status, headers and body to send for this request
+   */
+  async function renderHit(
+    req: any,
+    cached: CacheValue,
+    extraHeaders: Record<string, string>,
+  ): Promise<CachedResponse> {
+    let body = cached.value;
+    let etag = cached.etag;
+    const headers: Record<string, string | string[]> = { ...(cached.headers ?? {}) };
+    headers['X-Cache'] = 'HIT';
+
+    if (cached.encoding) {
+      if (acceptsEncoding(req.headers?.['accept-encoding'], cached.encoding)) {
+        // Serve the stored bytes; the encoded representation needs its own validator
+        headers['Content-Encoding'] = cached.encoding;
+        if (etag) etag = etag.replace(/"$/, `-${cached.encoding}"`);
+      } else {
+        body = await decompressBody(cached);
+      }
+      const vary = headers.vary;
+      delete headers.vary;
+      headers['Vary'] = vary ? `${vary}, Accept-Encoding` : 'Accept-Encoding';
+    }
+    Object.assign(headers, extraHeaders);
+
+    if (options.etag) {
+      if (etag) headers['ETag'] = etag;
+      headers['Last-Modified'] = new Date(cached.createdAt).toUTCString();
+
+      if (isNotModified(req, etag, cached.createdAt)) {
+        return { status: 304, headers, body: undefined, notModified: true };
+      }
+    }
+
+    return { status: cached.statusCode ?? 200, headers, body, notModified: false };
+  }
+
+  /**
+   * Register the in-flight miss for a key so concurrent requests can wait for it
+   */
+  function beginCapture(req: any, key: string, ttl: number): MissCapture {
+    let settle!: () => void;
+    const pending = new Promise<void>((resolve) => {
+      settle = resolve;
+    }).finally(() => {
+      if (pendingRequests.get(key) === pending) pendingRequests.delete(key);
+    });
+    if (!pendingRequests.has(key)) pendingRequests.set(key, pending);
+
+    let settled = false;
+    return {
+      async complete(res, payload) {
+        if (settled) return;
+        settled = true;
+        try {
+          await storeResponse(req, res, payload, ttl);
+        } catch (e) {
+          logger.warn && logger.warn('[cache set failed]', e);
+        } finally {
+          settle();
+        }
+      },
+      abort() {
+        if (settled) return;
+        settled = true;
+        settle();
+      },
+    };
+  }
+
+  /**
+   * Decide how a request is served: untouched, from the cache, or by the handler with capture
+   */
+  async function handle(req: any, handleOptions: HandleOptions = {}): Promise<CacheDecision> {
+    const method = (req.method || 'GET').toUpperCase();
+
+    // GraphQL mode: only query operations are cached, mutations invalidate. A POSTed persisted
+    // query this instance has not seen may be a mutation, so it invalidates too.
+    const graphql = graphqlOperationFor(req);
+    if (graphql && graphql.operationType !== 'query') {
+      const mayWrite = graphql.operationType === undefined && method === 'POST';
+      if (graphql.operationType === 'mutation' || mayWrite) await handleInvalidateOnWrite(req);
+      return { type: 'pass' };
+    }
+
+    // Handle write operations (POST/PUT/PATCH/DELETE)
+    if (!graphql && ['POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) {
+      // For POST requests, check if they should be cached
+      if (method === 'POST' && options.cachePostPredicate?.(req)) {
+        // This POST request is cacheable, don't invalidate and continue with caching logic
+      } else {
+        // This is a write operation, invalidate cache and don't cache
+        await handleInvalidateOnWrite(req);
+        return { type: 'pass' };
+      }
+    }
+
+    // Check if request should bypass cache
+    if (shouldBypass(req)) return { type: 'pass' };
+    if (options.respectCacheControl && requestForbidsStorage(req)) return { type: 'pass' };
+
+    // Get TTL (per-route or default)
+    const userTtl = options.getPerRouteTtl?.(req);
+    const ttl = userTtl ?? options.ttl;
+
+    if (handleOptions.refresh) {
+      const key = cacheKeyFor(req);
+      return { type: 'miss', key, ttl, headers: {}, capture: beginCapture(req, key, ttl) };
+    }
+
+    // Check cache (L1 -> L2), unless the client demands revalidation
+    const revalidate = options.respectCacheControl && requestRequiresRevalidation(req);
+    let { key, cached, tier } = revalidate ? { key: cacheKeyFor(req) } : await lookup(req);
+    let headers: Record<string, string>;
+
+    // Entries carry their own ttl (negative entries may differ from the route ttl)
+    const remainingTtl = (entry: CacheValue) =>
+      (entry.ttl ?? ttl) - Math.floor((Date.now() - entry.createdAt) / 1000);
+    const hit = async (entry: CacheValue, stale: boolean): Promise<CacheDecision> => {
+      // A hit with a negative ttl is how RFC 9211 reports a stale response
+      const hitStatus = ['hit', `ttl=${remainingTtl(entry)}`, `detail=${tier}`];
+      const response = await renderHit(req, entry, statusHeaders(key, hitStatus, entry));
+      return { type: 'hit', key, ttl, stale, response };
+    };
+
+    if (cached) {
+      hits++;
+      const isExpired = remainingTtl(cached) <= 0;
+
+      if (!isExpired) {
+        // Cache hit - serve fresh data
+        logger.debug && logger.debug('[cache hit]', key);
+        return hit(cached, false);
+      }
+
+      // Stale-while-revalidate: serve stale data and refresh in background
+      if (options.staleWhileRevalidate) {
+        logger.debug && logger.debug('[cache stale]', key);
+        return hit(cached, true);
+      }
+      // else treat as cache miss and fetch fresh data
+      headers = statusHeaders(key, ['fwd=stale', `detail=${tier}`]);
+    } else {
+      misses++;
+      logger.debug && logger.debug('[cache miss]', key);
+      headers = statusHeaders(key, [revalidate ? 'fwd=request' : 'fwd=miss']);
+    }
+
+    // Request coalescing: wait for an identical in-flight request, then look again
+    const pending = pendingRequests.get(key);
+    if (pending && !revalidate) {
+      await pending;
+      ({ key, cached, tier } = await lookup(req));
+      if (cached && remainingTtl(cached) > 0) {
+        logger.debug && logger.debug('[cache coalesced]', key);
+        return hit(cached, false);
+      }
+    }
+
+    return { type: 'miss', key, ttl, headers, capture: beginCapture(req, key, ttl) };
+  }
+
+  /**
+   * Run a background refresh for a stale key unless one is already in flight
+   */
+  function revalidateInBackground(key: string, run: () => Promise<void>): void {
+    if (pendingRequests.has(key)) return; // already refreshing
+
+    const refreshPromise = run()
+      .catch((error) => {
+        logger.warn && logger.warn('[background refresh failed]', error);
+      })
+      .finally(() => {
+        pendingRequests.delete(key);
+      });
+
+    pendingRequests.set(key, refreshPromise);
+  }
+
+  /**
+   * Return the cached result of fn under key, calling it on a miss
+   */
+  async function wrap<T>(
+    key: string,
+    fn: () => T | Promise<T>,
+    wrapOptions: WrapOptions = {},
+  ): Promise<T> {
+    const ttl = wrapOptions.ttl ?? options.ttl;
+
+    const call = (): Promise<T> => {
+      const inFlight = pendingCalls.get(key);
+      if (inFlight) return inFlight as Promise<T>;
+
+      const promise = (async () => {
+        const value = await fn();
+        const entry: CacheValue<T> = { value, createdAt: Date.now(), ttl };
+        if (wrapOptions.tags?.length) entry.tags = wrapOptions.tags;
+        try {
+          await writeThrough(key, entry, ttl);
+        } catch (e) {
+          logger.warn && logger.warn('[cache set failed]', e);
+        }
+        return value;
+      })().finally(() => pendingCalls.delete(key));
+      pendingCalls.set(key, promise);
+      return promise;
+    };
+
+    const found = await readThrough<T>(key);
+    if (!found) {
+      misses++;
+      return call();
+    }
+
+    hits++;
+    const { cached } = found;
+    const remainingTtl = cached.ttl - Math.floor((Date.now() - cached.createdAt) / 1000);
+    if (remainingTtl > 0) return cached.value;
+
+    // Stale-while-revalidate: return the stale value and refresh in background
+    if (options.staleWhileRevalidate) {
+      revalidateInBackground(key, async () => {
+        await call();
+      });
+      return cached.value;
+    }
+    return call();
+  }
+
+  /**
+   * Cache a function's results per argument list
+   */
+  function memoize<A extends unknown[], R>(
+    fn: (...args: A) => R | Promise<R>,
+    memoizeOptions: MemoizeOptions<A> = {},
+  ): (...args: A) => Promise<R> {
+    // Keys must not depend on the process, so anonymous functions need an explicit name
+    const name = memoizeOptions.name ?? fn.name;
+    if (!memoizeOptions.keyFn && !name) {
+      throw new Error('memoize needs a keyFn or name option for anonymous functions');
+    }
+    const keyFn = memoizeOptions.keyFn ?? ((...args: A) => `memo:${name}:${sha256(args)}`);
+    return (...args: A) => {
+      const { tags } = memoizeOptions;
+      return wrap(keyFn(...args), () => fn(...args), {
+        ttl: memoizeOptions.ttl,
+        tags: typeof tags === 'function' ? tags(...args) : tags,
+      });
+    };
+  }
+
+  // Manual cache clearing API
+  async function clearCache(pattern = '*') {
+    await invalidateByPattern(pattern);
+  }
+
+  /**
+   * Release store connections and timers; the cache is unusable afterwards
+   */
+  async function close() {
+    await Promise.all([...stores.map((s) => s.close?.()), bus?.close()]);
+  }
+
+  return {
+    options,
+    logger,
+    stores,
+    readThrough,
+    writeThrough,
+    handle,
+    storeResponse,
+    validatorHeaders,
+    revalidateInBackground,
+    wrap,
+    memoize,
+    clearCache,
+    invalidateTags,
+    getCacheStats,
+    close,
+  };
+}
@@ -1,7 +1,25 @@
 export * from './middleware';
+export * from './core';
+export * from './cache';
+export * from './cachedFetch';
+export * from './proxy';
+export * from './adapters/fastify';
+export * from './adapters/koa';
+export * from './adapters/fetch';
+export * from './adapters/node';
+export * from './adapters/nest';
+export * from './store/cacheStore';
+export * from './store/conformance';
 export * from './store/memoryStore';
 export * from './store/redisStore';
+export * from './store/redisKeys';
+export * from './store/redisInvalidationTransport';
+export * from './store/serializers';
 export * from './utils/keyGenerator';
 export * from './utils/logger';
 export * from './utils/hash';
+export * from './utils/cacheControl';
+export * from './utils/etag';
+export * from './utils/compression';
+export * from './utils/invalidationBus';
 export * from './config';
@@ -1,332 +1,225 @@
 import type { ApiCacheOptions } from './config';
-import { defaultConfig } from './config';
-import { buildCacheKey } from './utils/keyGenerator';
-import { createLogger } from './utils/logger';
-import { getPayloadSize } from './utils/hash';
-import { MemoryStore, type CacheValue } from './store/memoryStore';
-import { RedisStore } from './store/redisStore';
-import { PatternInvalidationEngine } from './utils/invalidation';
+import { createCacheCore, type CachedResponse } from './core';
+import type { CacheValue } from './store/memoryStore';
+import { captureStreamedBody } from './utils/responseCapture';
 
-export type CacheStore = {
-  get<T>(key: string): Promise<CacheValue<T> | undefined>;
-  set<T>(key: string, val: CacheValue<T>, ttlSeconds: number): Promise<void>;
-  del(key: string): Promise<void>;
-  keys(pattern?: string): Promise<string[]>;
-  stats(): { keys: number };
-};
-
-export type CacheStats = { hits: number; misses: number } & { keys: number };
+export type { CacheStore, CacheStats } from './core';
 
 export { ApiCacheOptions, CacheValue };
 
-export function apiCache(userOptions: ApiCacheOptions = {}) {
-  const options = { ...defaultConfig, ...userOptions };
-  const logger = createLogger(options.logger);
-
-  const stores: CacheStore[] = [];
-  const memory = options.useMemory ? new MemoryStore() : undefined;
-  const redis = options.useRedis && options.redisUrl ? new RedisStore(options.redisUrl) : undefined;
-  if (memory) stores.push(memory);
-  if (redis) stores.push(redis);
-  if (redis) void redis.connect();
+// Marks the request replayed by a background refresh, which must reach the route handler
+const REFRESH = Symbol('apiCache.refresh');
 
-  // Initialize pattern invalidation engine if configured
-  const invalidationEngine = options.invalidation 
-    ? new PatternInvalidationEngine(options.invalidation, logger)
-    : undefined;
-
-  let hits = 0;
-  let misses = 0;
-  const pendingRequests = new Map<string, Promise<any>>();
+export function apiCache(userOptions: ApiCacheOptions = {}) {
+  const core = createCacheCore(userOptions);
+  const { options, logger } = core;
 
-  async function readThrough<T>(key: string): Promise<CacheValue<T> | undefined> {
-    for (const store of stores) {
-      const val = await store.get<T>(key);
-      if (val) return val;
+  function setHeaders(res: any, headers: Record<string, string | string[]>): void {
+    for (const [name, value] of Object.entries(headers)) {
+      if (res.setHeader) res.setHeader(name, value);
+      else if (res.set) res.set(name, value);
     }
-    return undefined;
   }
 
-  async function writeThrough<T>(key: string, value: CacheValue<T>, ttl: number) {
-    await Promise.all(stores.map((s) => s.set<T>(key, value, ttl)));
-  }
-
-  function shouldBypass(req: any): boolean {
-    const method = (req.method || 'GET').toUpperCase();
-    
-    // Check if method is cacheable
-    if (!options.methods.includes(method as any)) return true;
-    
-    // Check excluded paths
-    if (options.excludePaths.some((p) => (req.path || req.url || '').startsWith(p))) return true;
-    
-    // Check auth caching disabled
-    if (options.disableAuthCaching && options.getUserId?.(req)) return true;
-    
-    // Check custom skip predicate
-    if (options.skipCachePredicate && options.skipCachePredicate(req)) return true;
-    
-    return false;
-  }
-
-  async function invalidateByPattern(pattern: string) {
-    await Promise.all(
-      stores.map(async (s) => {
-        const keys = await s.keys(pattern);
-        await Promise.all(keys.map((k) => s.del(k)));
-      }),
-    );
-  }
-
-  function getCacheStats(): CacheStats {
-    const keyCounts = stores.reduce((acc, s) => acc + s.stats().keys, 0);
-    return { hits, misses, keys: keyCounts };
-  }
-
-  async function handleInvalidateOnWrite(req: any) {
-    if (!options.invalidateOnWrite) return;
-    
-    const method = (req.method || 'GET').toUpperCase();
-    
-    // Handle traditional REST write operations
-    if (!['POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) return;
-
-    // Use pattern-based invalidation if configured
-    if (invalidationEngine && options.invalidation) {
-      try {
-        await invalidationEngine.invalidate(req, stores, options.invalidation, options.getUserId!);
-        return;
-      } catch (error) {
-        logger.warn && logger.warn('[pattern invalidation failed, falling back to legacy]', error);
-      }
-    }
-
-    // Legacy invalidation fallback
-    // Invalidate exact matching cache key
-    const key = buildCacheKey(req, { 
-      getUserId: options.getUserId!
-    });
-    await invalidateByPattern(key);
-
-    // Invalidate related patterns for same path
-    const url = req.originalUrl || req.url || '';
-    const pathOnly = url.split('?')[0] || url;
-    const userId = options.getUserId?.(req) || 'anon';
-    
-    // Invalidate GET and POST requests for this path
-    await invalidateByPattern(`GET:${pathOnly}:*:*:${userId}`);
-    await invalidateByPattern(`POST:${pathOnly}:*:*:${userId}`);
+  function sendCachedResponse(res: any, response: CachedResponse): void {
+    if (res.headersSent) return;
 
-    // Custom invalidation patterns
-    const patterns = options.getInvalidationPatterns?.(req);
-    if (patterns?.length) {
-      for (const p of patterns) {
-        await invalidateByPattern(p);
-      }
+    setHeaders(res, response.headers);
+    if (response.notModified) {
+      res.status && res.status(304);
+      if (res.end) res.end();
+      else res.send();
+      return;
     }
-  }
 
-  function sendCachedResponse(res: any, payload: any): void {
-    if (res.headersSent) return;
-    
-    res.set && res.set('X-Cache', 'HIT');
-    if (res.json && typeof payload === 'object') {
+    const payload = response.body;
+    if (res.status) res.status(response.status);
+    if (Buffer.isBuffer(payload)) {
+      if (res.send) res.send(payload);
+      else res.end(payload);
+    } else if (res.json && typeof payload === 'object') {
       res.json(payload);
     } else {
       res.send(payload);
     }
   }
 
-  async function refreshInBackground(req: any, key: string, ttl: number, next: any): Promise<void> {
-    if (pendingRequests.has(key)) return; // already refreshing
-
-    const refreshPromise = new Promise<void>((resolve) => {
-      // Create a mock response to capture the fresh data
-      const mockRes: any = {
-        json: (data: any) => {
-          try {
-            const cacheVal: CacheValue = { value: data, createdAt: Date.now(), ttl };
-            void writeThrough(key, cacheVal, ttl);
-          } finally {
-            resolve();
-          }
-        },
-        send: (data: any) => {
-          try {
-            const cacheVal: CacheValue = { value: data, createdAt: Date.now(), ttl };
-            void writeThrough(key, cacheVal, ttl);
-          } finally {
-            resolve();
-          }
-        },
-        set: () => {},
-        setHeader: () => {},
-        status: () => mockRes,
-        end: () => resolve(),
-      };
-
-      // Execute route handler with mock response to get fresh data
-      setImmediate(() => {
-        try {
-          // Create a new request context for background refresh
-          const mockReq = { ...req };
-          next.call(null, mockReq, mockRes, () => {});
-        } catch (error) {
-          logger.warn && logger.warn('[background refresh failed]', error);
-          resolve();
-        }
-      });
-    }).finally(() => {
-      pendingRequests.delete(key);
-    });
-
-    pendingRequests.set(key, refreshPromise);
+  function refreshInBackground(req: any, key: string, ttl: number): void {
+    // Replaying needs the Express app; without it the stale entry just expires
+    let app = req.app;
+    while (app?.parent) app = app.parent;
+    if (typeof app?.handle !== 'function') return;
+
+    core.revalidateInBackground(
+      key,
+      () =>
+        new Promise<void>((resolve) => {
+          // Create a mock response to capture the fresh data
+          const headers: Record<string, any> = {};
+          const setHeader = (name: string | Record<string, any>, value?: any) => {
+            if (typeof name === 'object') {
+              for (const [k, v] of Object.entries(name)) headers[k.toLowerCase()] = v;
+            } else {
+              headers[name.toLowerCase()] = value;
+            }
+            return mockRes;
+          };
+          const capture = (data: any) => {
+            core
+              .storeResponse(req, mockRes, data, ttl)
+              .catch((e) => logger.warn && logger.warn('[cache set failed]', e))
+              .finally(() => resolve());
+          };
+          const mockRes: any = {
+            statusCode: 200,
+            json: capture,
+            send: capture,
+            set: setHeader,
+            setHeader,
+            getHeader: (name: string) => headers[name.toLowerCase()],
+            status: (code: number) => {
+              mockRes.statusCode = code;
+              return mockRes;
+            },
+            write: () => true,
+            end: () => mockRes,
+          };
+          captureStreamedBody(mockRes, options.maxPayloadSize, (body) => {
+            if (body) capture(body);
+            else resolve();
+          });
+
+          // Run the request through the app again, from the top, into the mock response
+          setImmediate(() => {
+            const mockReq = { ...req, url: req.originalUrl ?? req.url, [REFRESH]: true };
+            delete mockReq._parsedUrl;
+            try {
+              app.handle(mockReq, mockRes, (error?: unknown) => {
+                if (error) logger.warn && logger.warn('[background refresh failed]', error);
+                resolve();
+              });
+            } catch (error) {
+              logger.warn && logger.warn('[background refresh failed]', error);
+              resolve();
+            }
+          });
+        }),
+    );
   }
 
   async function middleware(req: any, res: any, next: any) {
-    const method = (req.method || 'GET').toUpperCase();
-
-    // Handle write operations (POST/PUT/PATCH/DELETE)
-    if (['POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) {
-      // For POST requests, check if they should be cached
-      if (method === 'POST' && options.cachePostPredicate?.(req)) {
-        // This POST request is cacheable, don't invalidate and continue with caching logic
-      } else {
-        // This is a write operation, invalidate cache and don't cache
-        await handleInvalidateOnWrite(req);
-        return next();
-      }
+    try {
+      await handleRequest(req, res, next);
+    } catch (e) {
+      // Errors before the handler runs (e.g. a failing invalidation) go to Express, not unhandled
+      next(e);
     }
+  }
 
-    // Check if request should bypass cache
-    if (shouldBypass(req)) return next();
+  async function handleRequest(req: any, res: any, next: any) {
+    if (req[REFRESH]) return next();
 
-    // Get TTL (per-route or default)
-    const userTtl = options.getPerRouteTtl?.(req);
-    const ttl = userTtl ?? options.ttl;
-    
-    // Generate cache key
-    const key = buildCacheKey(req, { 
-      getUserId: options.getUserId!
-    });
+    const decision = await core.handle(req);
 
-    // Check cache (L1 -> L2)
-    let cached = await readThrough<any>(key);
+    if (decision.type === 'pass') return next();
 
-    if (cached) {
-      hits++;
-      const age = Math.floor((Date.now() - cached.createdAt) / 1000);
-      const isExpired = age >= ttl;
+    if (decision.type === 'hit') {
+      sendCachedResponse(res, decision.response);
+      // Stale-while-revalidate: refresh in background
+      if (decision.stale) refreshInBackground(req, decision.key, decision.ttl);
+      return;
+    }
 
-      if (!isExpired) {
-        // Cache hit - serve fresh data
-        logger.debug && logger.debug('[cache hit]', key);
-        return sendCachedResponse(res, cached.value);
-      }
+    const { key, capture } = decision;
+    if (!res.headersSent) setHeaders(res, decision.headers);
 
-      // Stale-while-revalidate: serve stale data and refresh in background
-      if (options.staleWhileRevalidate) {
-        logger.debug && logger.debug('[cache stale]', key);
-        sendCachedResponse(res, cached.value);
-        
-        // Refresh in background
-        void refreshInBackground(req, key, ttl, next);
-        return;
-      }
-      // else treat as cache miss and fetch fresh data
-    } else {
-      misses++;
-      logger.debug && logger.debug('[cache miss]', key);
-    }
+    const done = new Promise<void>((resolve, reject) => {
+      // Hook into response methods to capture response
+      const originalJson = res.json?.bind(res);
+      const originalSend = res.send?.bind(res);
+      let responseCaptured = false;
 
-    // Request coalescing: prevent cache stampede
-    let pending = pendingRequests.get(key);
-    if (!pending) {
-      pending = new Promise((resolve, reject) => {
-        // Hook into response methods to capture response
-        const originalJson = res.json?.bind(res);
-        const originalSend = res.send?.bind(res);
-        let responseCaptured = false;
+      const captureAndCache = (payload: any) => {
+        if (responseCaptured) return payload;
+        responseCaptured = true;
 
-        const captureAndCache = (payload: any) => {
-          if (responseCaptured) return payload;
-          responseCaptured = true;
+        // Resolve after the cache write completes
+        capture.complete(res, payload).then(() => resolve());
 
-          // Start the cache write operation
-          const cacheWritePromise = (async () => {
-            try {
-              // Check payload size before caching
-              const size = getPayloadSize(payload);
-              if (size <= options.maxPayloadSize) {
-                const cacheVal: CacheValue = { value: payload, createdAt: Date.now(), ttl };
-                await writeThrough(key, cacheVal, ttl);
-              } else {
-                logger.warn && logger.warn('[payload too large for cache]', { key, size, maxSize: options.maxPayloadSize });
-              }
-            } catch (e) {
-              logger.warn && logger.warn('[cache set failed]', e);
-            }
-          })();
+        return payload;
+      };
+
+      const setValidators = (payload: any) => {
+        if (responseCaptured || res.headersSent || !res.setHeader) return;
+        setHeaders(res, core.validatorHeaders(res, payload));
+      };
 
-          // Resolve the promise after cache write completes
-          cacheWritePromise.then(() => resolve(payload)).catch(() => resolve(payload));
-          
-          return payload;
+      // Override response methods
+      if (originalJson) {
+        res.json = function (body: any) {
+          setValidators(body);
+          captureAndCache(body);
+          return originalJson(body);
         };
+      }
 
-        // Override response methods
-        if (originalJson) {
-          res.json = function (body: any) {
-            captureAndCache(body);
-            return originalJson(body);
-          };
-        }
+      if (originalSend) {
+        res.send = function (body: any) {
+          setValidators(body);
+          captureAndCache(body);
+          return originalSend(body);
+        };
+      }
 
-        if (originalSend) {
-          res.send = function (body: any) {
-            captureAndCache(body);
-            return originalSend(body);
-          };
+      // Handlers that write directly or pipe a stream end up in res.end
+      captureStreamedBody(res, options.maxPayloadSize, (body) => {
+        if (responseCaptured) return;
+        if (body === undefined) {
+          responseCaptured = true;
+          logger.warn &&
+            logger.warn('[payload too large for cache]', { key, maxSize: options.maxPayloadSize });
+          capture.abort();
+          resolve();
+          return;
         }
+        setValidators(body);
+        captureAndCache(body);
+      });
 
-        // Call the next middleware/route handler
-        try {
-          const result = next();
-          // If next() returns a promise, handle it
-          if (result && typeof result.then === 'function') {
-            result.catch(reject);
-          }
-        } catch (e) {
-          reject(e);
-        }
-      })
-        .catch((e) => {
-          pendingRequests.delete(key);
-          throw e;
-        })
-        .finally(() => {
-          pendingRequests.delete(key);
-        });
+      // A response that is torn down without finishing must not leave waiters hanging
+      res.once?.('close', () => {
+        capture.abort();
+        resolve();
+      });
 
-      pendingRequests.set(key, pending);
-    }
+      // Call the next middleware/route handler
+      try {
+        const result = next();
+        // If next() returns a promise, handle it
+        if (result && typeof result.then === 'function') {
+          result.catch(reject);
+        }
+      } catch (e) {
+        reject(e);
+      }
+    });
 
     try {
-      await pending;
+      await done;
       // Response should have been sent by the route handler
     } catch (e) {
+      capture.abort();
       return next(e);
     }
   }
 
-  // Manual cache clearing API
-  async function clearCache(pattern = '*') {
-    await invalidateByPattern(pattern);
-  }
-
   // Attach utility methods to middleware function
   return Object.assign(middleware, {
-    clearCache,
-    getCacheStats,
+    clearCache: core.clearCache,
+    invalidateTags: core.invalidateTags,
+    getCacheStats: core.getCacheStats,
+    wrap: core.wrap,
+    memoize: core.memoize,
+    close: core.close,
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,125 @@
+import http, { type IncomingMessage, type OutgoingHttpHeaders, type ServerResponse } from 'http';
+import https from 'https';
+
+import { httpApiCache } from './adapters/node';
+import type { ApiCacheOptions } from './config';
+
+export interface CachingProxyOptions extends ApiCacheOptions {
+  upstream: string; // base URL of the service behind the proxy, e.g. http://localhost:3000
+}
+
+// Connection-level headers that must not be forwarded by a proxy (RFC 9110 section 7.6.1)
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+];
+
+function forwardableHeaders(headers: http.IncomingHttpHeaders): OutgoingHttpHeaders {
+  const connection = String(headers.connection ?? '')
+    .split(',')
+    .map((h) => h.trim().toLowerCase());
+  const forwarded: OutgoingHttpHeaders = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || HOP_BY_HOP_HEADERS.includes(name) || connection.includes(name)) {
+      continue;
+    }
+    forwarded[name] = value;
+  }
+  return forwarded;
+}
+
+function upstreamUrl(base: URL, path: string): URL {
+  const prefix = base.pathname.replace(/\/$/, '');
+  const url = new URL(path || '/', base);
+  url.pathname = prefix + url.pathname;
+  return url;
+}
+
+/**
+ * Requests carrying credentials are answered for a user the proxy cannot identify
+ */
+function hasCredentials(req: IncomingMessage): boolean {
+  return req.headers.authorization !== undefined || req.headers.cookie !== undefined;
+}
+
+/**
+ * A node:http handler that forwards requests to `upstream` and caches the responses.
+ * Misses are streamed through as they arrive; writes invalidate before being forwarded.
+ * Unless overridden, upstream Cache-Control is honored and requests with Authorization or
+ * Cookie headers bypass the cache, since the shared entries are keyed without a user.
+ */
+export function createCachingProxy(userOptions: CachingProxyOptions) {
+  const { upstream, ...rest } = userOptions;
+  const cacheOptions: ApiCacheOptions = {
+    respectCacheControl: true,
+    skipCachePredicate: hasCredentials,
+    ...rest,
+  };
+  const base = new URL(upstream);
+  const transport = base.protocol === 'https:' ? https : http;
+  const logger = cacheOptions.logger ?? console;
+
+  function forward(req: IncomingMessage & { rawBody?: Buffer }, res: ServerResponse) {
+    return new Promise<void>((resolve, reject) => {
+      const target = upstreamUrl(base, req.url || '/');
+      const headers = forwardableHeaders(req.headers);
+      headers.host = target.host;
+      // Stored bodies are replayed without Content-Encoding, so ask upstream for identity
+      headers['accept-encoding'] = 'identity';
+      const remoteAddress = req.socket?.remoteAddress;
+      if (remoteAddress) {
+        const prior = req.headers['x-forwarded-for'];
+        headers['x-forwarded-for'] = prior ? `${prior}, ${remoteAddress}` : remoteAddress;
+      }
+      headers['x-forwarded-host'] ??= req.headers.host;
+      headers['x-forwarded-proto'] ??= (req.socket as any)?.encrypted ? 'https' : 'http';
+      if (req.rawBody) {
+        // The cache already read the body of write requests
+        headers['content-length'] = String(req.rawBody.length);
+      }
+
+      const upstreamReq = transport.request(
+        target,
+        { method: req.method, headers },
+        (upstreamRes) => {
+          res.writeHead(upstreamRes.statusCode ?? 502, forwardableHeaders(upstreamRes.headers));
+          upstreamRes.pipe(res);
+          upstreamRes.on('end', resolve);
+          upstreamRes.on('error', reject);
+        },
+      );
+      upstreamReq.on('error', reject);
+      // A client that goes away cancels the upstream request
+      res.once('close', () => {
+        if (!res.writableFinished) upstreamReq.destroy();
+      });
+
+      if (req.rawBody) upstreamReq.end(req.rawBody);
+      else req.pipe(upstreamReq);
+    });
+  }
+
+  async function proxyHandler(req: IncomingMessage, res: ServerResponse) {
+    try {
+      await forward(req, res);
+    } catch (error) {
+      logger.warn && logger.warn('[upstream request failed]', error);
+      if (res.headersSent) {
+        res.destroy(error as Error);
+        return;
+      }
+      res.statusCode = 502;
+      res.setHeader('content-type', 'text/plain; charset=utf-8');
+      res.end('Bad Gateway');
+    }
+  }
+
+  return httpApiCache(proxyHandler, cacheOptions);
+}
@@ -0,0 +1,65 @@
+import type { CacheValue } from './memoryStore';
+
+/**
+ * A cache tier. Entries are read from the first store that has them and written to all.
+ * keys(pattern) matches `*` as a wildcard over the whole key; stats().keys is -1 when unknown
+ * and evictions counts entries dropped to stay within size limits.
+ * The optional batch and lifecycle methods are used when present.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheValue<T> | undefined>;
+  set<T>(key: string, val: CacheValue<T>, ttlSeconds: number): Promise<void>;
+  del(key: string): Promise<void>;
+  keys(pattern?: string): Promise<string[]>;
+  stats(): { keys: number; evictions?: number };
+  // In-process store private to this instance: the invalidation bus replays other instances'
+  // invalidations on it
+  local?: boolean;
+
+  mget?<T>(keys: string[]): Promise<(CacheValue<T> | undefined)[]>; // results in key order
+  mdel?(keys: string[]): Promise<void>;
+  clear?(): Promise<void>; // remove every entry of this store
+  keysWithTags?(tags: string[]): Promise<string[]>; // candidates for a tag lookup, may include others
+  close?(): Promise<void>; // release connections and timers
+}
+
+/**
+ * A store with the tier name reported in Cache-Status (`detail=<name>`)
+ */
+export interface NamedCacheStore {
+  name: string;
+  store: CacheStore;
+}
+
+export function isNamedCacheStore(entry: CacheStore | NamedCacheStore): entry is NamedCacheStore {
+  return typeof (entry as CacheStore).get !== 'function';
+}
+
+/**
+ * Read several keys, batched when the store supports it
+ */
+export async function getMany<T>(
+  store: CacheStore,
+  keys: string[],
+): Promise<(CacheValue<T> | undefined)[]> {
+  if (!keys.length) return [];
+  if (store.mget) return store.mget<T>(keys);
+  return Promise.all(keys.map((k) => store.get<T>(k)));
+}
+
+/**
+ * Delete several keys, batched when the store supports it
+ */
+export async function deleteMany(store: CacheStore, keys: string[]): Promise<void> {
+  if (!keys.length) return;
+  if (store.mdel) await store.mdel(keys);
+  else await Promise.all(keys.map((k) => store.del(k)));
+}
+
+/**
+ * RegExp for a keys() pattern, where `*` is the only wildcard
+ */
+export function wildcardToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
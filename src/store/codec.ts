@@ -0,0 +1,48 @@
+import type { CacheValue } from './memoryStore';
+
+// Extended JSON tags; any other object round-trips as plain JSON
+const BINARY_TAG = '$binary';
+const DATE_TAG = '$date';
+// Payload objects shaped like a tag (e.g. MongoDB Extended JSON) get one more leading `$`
+const TAG_LIKE = /^\$+(binary|date)$/;
+const ESCAPED_TAG = /^\$\$+(binary|date)$/;
+
+/**
+ * The key of an object with exactly one key
+ */
+function singleKey(val: any): string | undefined {
+  if (val === null || typeof val !== 'object' || Array.isArray(val)) return undefined;
+  const keys = Object.keys(val);
+  return keys.length === 1 ? keys[0] : undefined;
+}
+
+/**
+ * Encode a cache entry as JSON without losing Buffers or Dates
+ */
+export function encodeCacheValue<T>(val: CacheValue<T>): string {
+  return JSON.stringify(val, function (this: any, key: string, value: any) {
+    // toJSON has already run on `value`; the holder still has the original
+    const original = key === '' ? value : this[key];
+    if (original instanceof Uint8Array) {
+      const buf = Buffer.isBuffer(original) ? original : Buffer.from(original);
+      return { [BINARY_TAG]: buf.toString('base64') };
+    }
+    if (original instanceof Date) return { [DATE_TAG]: original.toISOString() };
+    const tagLike = singleKey(value);
+    if (tagLike && TAG_LIKE.test(tagLike)) return { [`$${tagLike}`]: value[tagLike] };
+    return value;
+  });
+}
+
+/**
+ * Decode an entry written by encodeCacheValue (plain JSON entries decode unchanged)
+ */
+export function decodeCacheValue<T>(data: string): CacheValue<T> {
+  return JSON.parse(data, (_key, value) => {
+    const key = singleKey(value);
+    if (key === BINARY_TAG) return Buffer.from(value[BINARY_TAG], 'base64');
+    if (key === DATE_TAG) return new Date(value[DATE_TAG]);
+    if (key && ESCAPED_TAG.test(key)) return { [key.slice(1)]: value[key] };
+    return value;
+  }) as CacheValue<T>;
+}
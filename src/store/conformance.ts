@@ -0,0 +1,143 @@
+import type { CacheStore } from './cacheStore';
+import type { CacheValue } from './memoryStore';
+
+export interface StoreConformanceOptions {
+  // Whether entries expire after their ttl (skip for stores that only evict, default: true)
+  expiry?: boolean;
+}
+
+/**
+ * Register a jest (or vitest, with globals) suite checking that a CacheStore behaves the way
+ * the cache expects. Each test uses its own key prefix and removes its keys afterwards, so a
+ * shared store (e.g. a Redis database) can be used; createStore runs once for the suite.
+ */
+export function runCacheStoreConformanceTests(
+  name: string,
+  createStore: () => CacheStore | Promise<CacheStore>,
+  options: StoreConformanceOptions = {},
+): void {
+  describe(`${name} CacheStore conformance`, () => {
+    let store: CacheStore;
+    let prefix: string;
+    let run = 0;
+
+    const entry = (value: unknown, extra: Partial<CacheValue> = {}): CacheValue => ({
+      value,
+      createdAt: 1700000000000,
+      ttl: 60,
+      ...extra,
+    });
+
+    beforeAll(async () => {
+      store = await createStore();
+    });
+
+    afterAll(async () => {
+      await store.close?.();
+    });
+
+    beforeEach(() => {
+      prefix = `conformance:${process.pid}:${++run}:`;
+    });
+
+    afterEach(async () => {
+      const keys = await store.keys(`${prefix}*`);
+      await Promise.all(keys.map((k) => store.del(k)));
+    });
+
+    test('returns undefined for missing keys', async () => {
+      expect(await store.get(`${prefix}missing`)).toBeUndefined();
+    });
+
+    test('round-trips entries with their metadata', async () => {
+      const stored = entry(
+        { list: [{ id: 1 }], body: Buffer.from([0, 1, 255]) },
+        {
+          statusCode: 201,
+          headers: { 'content-type': 'application/json', link: ['<a>', '<b>'] },
+          etag: '"abc"',
+          encoding: 'gzip',
+          vary: ['accept-language'],
+          tags: ['User', 'User:1'],
+        },
+      );
+      await store.set(`${prefix}GET:/users:::anon`, stored, 60);
+
+      const loaded = await store.get<any>(`${prefix}GET:/users:::anon`);
+      expect(loaded).toBeDefined();
+      expect(loaded!.value.list).toEqual([{ id: 1 }]);
+      expect(Buffer.isBuffer(loaded!.value.body)).toBe(true);
+      expect(loaded!.value.body.equals(stored.value.body)).toBe(true);
+      expect({ ...loaded, value: undefined }).toEqual({ ...stored, value: undefined });
+    });
+
+    test('overwrites existing entries', async () => {
+      await store.set(`${prefix}key`, entry('first'), 60);
+      await store.set(`${prefix}key`, entry('second'), 60);
+      expect((await store.get(`${prefix}key`))?.value).toBe('second');
+    });
+
+    test('deletes entries', async () => {
+      await store.set(`${prefix}key`, entry('value'), 60);
+      await store.del(`${prefix}key`);
+      await store.del(`${prefix}never-set`);
+      expect(await store.get(`${prefix}key`)).toBeUndefined();
+    });
+
+    test('lists keys matching a wildcard pattern', async () => {
+      await store.set(`${prefix}GET:/users:::anon`, entry(1), 60);
+      await store.set(`${prefix}GET:/users/1:::anon`, entry(2), 60);
+      await store.set(`${prefix}GET:/posts:::anon`, entry(3), 60);
+
+      expect((await store.keys(`${prefix}GET:/users*`)).sort()).toEqual([
+        `${prefix}GET:/users/1:::anon`,
+        `${prefix}GET:/users:::anon`,
+      ]);
+      expect(await store.keys(`${prefix}*:/posts:*`)).toEqual([`${prefix}GET:/posts:::anon`]);
+      expect(await store.keys()).toEqual(expect.arrayContaining([`${prefix}GET:/posts:::anon`]));
+    });
+
+    test('reports a key count', () => {
+      const { keys } = store.stats();
+      expect(Number.isInteger(keys)).toBe(true);
+      expect(keys).toBeGreaterThanOrEqual(-1);
+    });
+
+    if (options.expiry !== false) {
+      test('expires entries after their ttl', async () => {
+        await store.set(`${prefix}short`, entry('value', { ttl: 1 }), 1);
+        expect(await store.get(`${prefix}short`)).toBeDefined();
+        await new Promise((resolve) => setTimeout(resolve, 1100));
+        expect(await store.get(`${prefix}short`)).toBeUndefined();
+      });
+    }
+
+    test('mget returns entries in key order (when implemented)', async () => {
+      if (!store.mget) return;
+      await store.set(`${prefix}a`, entry('a'), 60);
+      await store.set(`${prefix}c`, entry('c'), 60);
+
+      const loaded = await store.mget([`${prefix}a`, `${prefix}b`, `${prefix}c`]);
+      expect(loaded.map((e) => e?.value)).toEqual(['a', undefined, 'c']);
+      expect(await store.mget([])).toEqual([]);
+    });
+
+    test('mdel deletes every given key (when implemented)', async () => {
+      if (!store.mdel) return;
+      await store.set(`${prefix}a`, entry('a'), 60);
+      await store.set(`${prefix}b`, entry('b'), 60);
+      await store.set(`${prefix}c`, entry('c'), 60);
+
+      await store.mdel([`${prefix}a`, `${prefix}b`, `${prefix}missing`]);
+      await store.mdel([]);
+      expect(await store.keys(`${prefix}*`)).toEqual([`${prefix}c`]);
+    });
+
+    test('clear removes every entry (when implemented)', async () => {
+      if (!store.clear) return;
+      await store.set(`${prefix}a`, entry('a'), 60);
+      await store.clear();
+      expect(await store.get(`${prefix}a`)).toBeUndefined();
+    });
+  });
+}
@@ -1,30 +1,115 @@
 import NodeCache from 'node-cache';
 
+import { getPayloadSize } from '../utils/hash';
+import { wildcardToRegExp, type CacheStore } from './cacheStore';
+
 export interface CacheValue<T = any> {
   value: T;
   createdAt: number;
   ttl: number; // seconds
+  statusCode?: number; // HTTP status of the original response
+  headers?: Record<string, string | string[]>; // allowlisted response headers, lowercase names
+  etag?: string; // strong validator for conditional requests
+  encoding?: 'gzip' | 'br'; // value holds the body compressed with this content-coding
+  vary?: string[]; // set on Vary index entries: request headers that select the stored variant
+  tags?: string[]; // invalidation tags the entry was stored with
+}
+
+export interface MemoryStoreOptions {
+  maxEntries?: number; // evict least recently used entries above this many
+  maxBytes?: number; // evict least recently used entries above this total size
+}
+
+/**
+ * Approximate memory held by an entry: body, metadata and key
+ */
+function entrySize(key: string, val: CacheValue): number {
+  return getPayloadSize(val.value) + getPayloadSize({ ...val, value: null }) + key.length;
 }
 
-export class MemoryStore {
+export class MemoryStore implements CacheStore {
+  readonly local = true;
   private cache: NodeCache;
+  // Entry sizes, least recently used first
+  private sizes = new Map<string, number>();
+  private bytes = 0;
+  private evictions = 0;
 
-  constructor() {
+  constructor(private options: MemoryStoreOptions = {}) {
     this.cache = new NodeCache();
+    // Expired and deleted entries leave the LRU order too
+    this.cache.on('del', (key: string) => this.untrack(key));
+    this.cache.on('flush', () => {
+      this.sizes.clear();
+      this.bytes = 0;
+    });
   }
 
   async get<T>(key: string): Promise<CacheValue<T> | undefined> {
-    return this.cache.get<CacheValue<T>>(key);
+    const val = this.cache.get<CacheValue<T>>(key);
+    const size = this.sizes.get(key);
+    if (val !== undefined && size !== undefined) {
+      // Move to the most recently used end
+      this.sizes.delete(key);
+      this.sizes.set(key, size);
+    }
+    return val;
   }
 
   async set<T>(key: string, val: CacheValue<T>, ttlSeconds: number): Promise<void> {
+    const { maxEntries, maxBytes } = this.options;
+    const size = entrySize(key, val);
+    this.untrack(key);
+    if (maxBytes !== undefined && size > maxBytes) {
+      // Would evict everything else and still not fit
+      this.cache.del(key);
+      return;
+    }
+
     this.cache.set(key, val, ttlSeconds);
+    this.sizes.set(key, size);
+    this.bytes += size;
+
+    while (
+      (maxEntries !== undefined && this.sizes.size > maxEntries) ||
+      (maxBytes !== undefined && this.bytes > maxBytes)
+    ) {
+      const oldest = this.sizes.keys().next().value as string;
+      this.cache.del(oldest);
+      this.untrack(oldest);
+      this.evictions++;
+    }
+  }
+
+  private untrack(key: string): void {
+    const size = this.sizes.get(key);
+    if (size === undefined) return;
+    this.sizes.delete(key);
+    this.bytes -= size;
   }
 
   async del(key: string): Promise<void> {
     this.cache.del(key);
   }
 
+  // Batch reads come from invalidation scans, so they do not count as use
+  async mget<T>(keys: string[]): Promise<(CacheValue<T> | undefined)[]> {
+    const found = this.cache.mget<CacheValue<T>>(keys);
+    return keys.map((k) => found[k]);
+  }
+
+  async mdel(keys: string[]): Promise<void> {
+    this.cache.del(keys);
+  }
+
+  async clear(): Promise<void> {
+    this.cache.flushAll();
+  }
+
+  async close(): Promise<void> {
+    this.cache.close();
+  }
+
   async keys(pattern = '*'): Promise<string[]> {
     const keys: string[] = this.cache.keys();
     if (!pattern || pattern === '*') return keys;
@@ -35,11 +120,8 @@ export class MemoryStore {
   stats() {
     return {
       keys: this.cache.keys().length,
+      bytes: this.bytes,
+      evictions: this.evictions,
     };
   }
 }
-
-function wildcardToRegExp(pattern: string): RegExp {
-  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
-  return new RegExp(`^${escaped}$`);
-}
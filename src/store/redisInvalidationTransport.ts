@@ -0,0 +1,56 @@
+import { createClient, RedisClientType } from 'redis';
+
+import type { InvalidationTransport } from '../utils/invalidationBus';
+import { logRedisError } from './redisStore';
+
+/**
+ * Invalidation bus transport over Redis pub/sub. PUBLISH reaches the subscribers of every
+ * node in a Redis Cluster, so any single node will do.
+ */
+export class RedisInvalidationTransport implements InvalidationTransport {
+  private publisher: RedisClientType;
+  private subscriber: RedisClientType;
+
+  constructor(
+    redisUrl: string,
+    private channel = 'api-cache:invalidation',
+  ) {
+    this.publisher = createClient({ url: redisUrl });
+    // A subscribed connection cannot run other commands
+    this.subscriber = this.publisher.duplicate();
+    this.publisher.on('error', logRedisError);
+    this.subscriber.on('error', logRedisError);
+  }
+
+  async publish(message: string): Promise<void> {
+    await this.publisher.publish(this.channel, message);
+  }
+
+  async subscribe(
+    onMessage: (message: string) => void,
+    onStatus: (connected: boolean) => void,
+  ): Promise<void> {
+    let subscribed = false;
+    // The client resubscribes before 'ready' after a reconnect
+    this.subscriber.on('ready', () => subscribed && onStatus(true));
+    this.subscriber.on('reconnecting', () => onStatus(false));
+    this.subscriber.on('end', () => onStatus(false));
+
+    await Promise.all([this.publisher.connect(), this.subscriber.connect()]);
+    await this.subscriber.subscribe(this.channel, onMessage);
+    subscribed = true;
+    onStatus(true);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(
+      [this.publisher, this.subscriber].map(async (c) => {
+        try {
+          if (c.isOpen) await c.quit();
+        } catch (error) {
+          // Already disconnected
+        }
+      }),
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import calculateSlot from 'cluster-key-slot';
+
+/**
+ * Default Redis Cluster hash tag for a cache key: the first path segment of request keys
+ * (`GET:/users/1:...` -> `/users`), otherwise the part before the first colon
+ * (`memo:getUser:...` -> `memo`). Keys sharing a tag live in one slot.
+ */
+export function defaultHashTag(key: string): string {
+  const [first, second] = key.split(':');
+  if (second?.startsWith('/')) return `/${second.split('/')[1]}`;
+  return first;
+}
+
+/**
+ * The hash tag every key matching a wildcard pattern shares under defaultHashTag,
+ * or undefined when matching keys may be spread over several slots
+ */
+export function defaultHashTagOfPattern(pattern: string): string | undefined {
+  const [first, second] = pattern.split(':');
+  // A wildcard before the first colon may span colons, shifting the parts
+  if (second === undefined || first.includes('*')) return undefined;
+  if (second.startsWith('/')) {
+    // The first path segment must be complete: `/users*` also matches `/users2`
+    const segment = /^\/([^/*]*)(\/|$)/.exec(second);
+    return segment ? `/${segment[1]}` : undefined;
+  }
+  return second.startsWith('*') ? undefined : first;
+}
+
+/**
+ * Redis key for a cache key under a hash tag; braces are dropped from the tag so the
+ * slot is always computed over the whole tag (an empty tag would hash the whole key)
+ */
+export function withHashTag(key: string, tag: string): string {
+  return `{${tag.replace(/[{}]/g, '') || '_'}}${key}`;
+}
+
+/**
+ * Cache key of a Redis key written with withHashTag
+ */
+export function withoutHashTag(redisKey: string): string {
+  return redisKey.startsWith('{') ? redisKey.slice(redisKey.indexOf('}') + 1) : redisKey;
+}
+
+/**
+ * SCAN MATCH pattern for a `*` wildcard pattern, with Redis' other glob characters escaped,
+ * after a literal prefix (where `*` is escaped too)
+ */
+export function toRedisMatch(pattern: string, literalPrefix = ''): string {
+  return literalPrefix.replace(/[*?[\]\\]/g, '\\$&') + pattern.replace(/[?[\]\\]/g, '\\$&');
+}
+
+export function slotOf(redisKey: string): number {
+  return calculateSlot(redisKey);
+}
+
+/**
+ * Group Redis keys by cluster slot, keeping their positions, for multi-key commands
+ */
+export function groupBySlot(redisKeys: string[]): { keys: string[]; indexes: number[] }[] {
+  const groups = new Map<number, { keys: string[]; indexes: number[] }>();
+  redisKeys.forEach((key, index) => {
+    const slot = slotOf(key);
+    let group = groups.get(slot);
+    if (!group) {
+      group = { keys: [], indexes: [] };
+      groups.set(slot, group);
+    }
+    group.keys.push(key);
+    group.indexes.push(index);
+  });
+  return Array.from(groups.values());
+}
+
+/**
+ * Secondary index sets a cache key belongs to: its first part, and for request keys every
+ * path prefix at a segment boundary (`/users`, `/users/1`) and its user
+ */
+export function keyIndexNames(key: string): string[] {
+  const parts = key.split(':');
+  const names = [`first:${parts[0]}`];
+  const path = parts[1];
+  if (path?.startsWith('/')) {
+    const segments = path.split('/');
+    for (let i = 2; i <= segments.length; i++) {
+      names.push(`path:${segments.slice(0, i).join('/') || '/'}`);
+    }
+    if (parts.length >= 5) names.push(`user:${parts[parts.length - 1]}`);
+  }
+  return names;
+}
+
+export function tagIndexName(tag: string): string {
+  return `tag:${tag}`;
+}
+
+/**
+ * The narrowest index set holding every key a wildcard pattern can match, or undefined when
+ * the matches are not confined to one set
+ */
+export function indexNameOfPattern(pattern: string): string | undefined {
+  const parts = pattern.split(':');
+  const [first, second] = parts;
+  // A wildcard before the first colon may span colons, shifting the parts
+  if (second === undefined || first.includes('*')) return undefined;
+  if (second.startsWith('/')) {
+    const wildcard = second.indexOf('*');
+    if (wildcard === -1) return `path:${second}`;
+    // Only complete segments: `/users/1*` also matches `/users/10`
+    const literal = second.slice(0, wildcard);
+    const path = literal.slice(0, literal.lastIndexOf('/'));
+    if (path) return `path:${path}`;
+    const user = parts[parts.length - 1];
+    if (parts.length >= 5 && !user.includes('*')) return `user:${user}`;
+  }
+  return `first:${first}`;
+}
@@ -1,35 +1,162 @@
-import { createClient, RedisClientType } from 'redis';
+import {
+  commandOptions,
+  createClient,
+  createCluster,
+  RedisClientType,
+  RedisClusterType,
+} from 'redis';
 
+import { wildcardToRegExp, type CacheStore } from './cacheStore';
 import type { CacheValue } from './memoryStore';
+import {
+  defaultHashTag,
+  defaultHashTagOfPattern,
+  groupBySlot,
+  indexNameOfPattern,
+  keyIndexNames,
+  slotOf,
+  tagIndexName,
+  toRedisMatch,
+  withHashTag,
+  withoutHashTag,
+} from './redisKeys';
+import { jsonSerializer, type CacheSerializer } from './serializers';
 
-export class RedisStore {
-  private client: RedisClientType;
+export interface RedisClusterOptions {
+  rootNodes: string[]; // URLs of some cluster nodes, e.g. redis://10.0.0.1:7000
+  useReplicas?: boolean; // serve reads from replicas (default: false)
+  // Hash tag for a cache key; keys sharing a tag share a slot (default: defaultHashTag)
+  hashTag?: (key: string) => string;
+}
 
-  constructor(redisUrl: string) {
-    this.client = createClient({ url: redisUrl });
-    this.client.on('error', (err) => {
-      // Only log errors in non-test environments to reduce test noise
-      if (process.env.NODE_ENV !== 'test') {
-        // eslint-disable-next-line no-console
-        console.error('[RedisStore] error', err);
-      }
-    });
+export interface RedisSentinelOptions {
+  name: string; // master group name monitored by the sentinels
+  sentinels: string[]; // sentinel URLs, e.g. redis://10.0.0.1:26379
+  // Credentials and database of the master
+  username?: string;
+  password?: string;
+  database?: number;
+}
+
+export interface RedisStoreOptions {
+  serializer?: CacheSerializer;
+  // Prepended to every Redis key; keys() only sees (and returns without it) keys under it
+  keyPrefix?: string;
+  cluster?: RedisClusterOptions; // connect to a Redis Cluster instead of redisUrl
+  sentinel?: RedisSentinelOptions; // discover the master through Sentinel instead of redisUrl
+  // Keep sorted sets of keys per path prefix, user and tag so keys() and tag lookups read one
+  // set instead of scanning every key (default: false)
+  index?: boolean;
+}
+
+// Index sets live beside the cache keys, under the key prefix
+const INDEX_PREFIX = '__index:';
+
+// Backoff between failed master lookups through the sentinels (doubling up to the max)
+const SENTINEL_RETRY_MS = 500;
+const SENTINEL_RETRY_MAX_MS = 30_000;
+
+// Add a member scored by its expiry, drop expired ones and keep the set until its last expiry
+const INDEX_ADD_SCRIPT = `
+redis.call('ZADD', KEYS[1], ARGV[2], ARGV[1])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[3])
+local ttl = tonumber(ARGV[2]) - tonumber(ARGV[3])
+if redis.call('PTTL', KEYS[1]) < ttl then redis.call('PEXPIRE', KEYS[1], ttl) end
+`;
+
+export function logRedisError(err: unknown) {
+  // Only log errors in non-test environments to reduce test noise
+  if (process.env.NODE_ENV !== 'test') {
+    // eslint-disable-next-line no-console
+    console.error('[RedisStore] error', err);
+  }
+}
+
+export class RedisStore implements CacheStore {
+  private client?: RedisClientType;
+  private cluster?: RedisClusterType;
+  private sentinelWatcher?: RedisClientType;
+  private masterAddress?: string;
+  private resolvingMaster?: Promise<void>;
+  private resolveFailures = 0;
+  private nextResolveAt = 0;
+  private closed = false;
+  private serializer: CacheSerializer;
+  private hashTag?: (key: string) => string;
+  private keyPrefix: string;
+
+  constructor(
+    redisUrl: string,
+    private options: RedisStoreOptions = {},
+  ) {
+    this.serializer = options.serializer ?? jsonSerializer;
+    this.keyPrefix = options.keyPrefix ?? '';
+    if (options.cluster) {
+      // Braces in the prefix would become the hash tag of every key
+      if (/[{}]/.test(this.keyPrefix)) throw new Error('keyPrefix must not contain { or }');
+      this.hashTag = options.cluster.hashTag ?? defaultHashTag;
+      this.cluster = createCluster({
+        rootNodes: options.cluster.rootNodes.map((url) => ({ url })),
+        useReplicas: options.cluster.useReplicas,
+      });
+      this.cluster.on('error', logRedisError);
+    } else if (!options.sentinel) {
+      this.client = createClient({ url: redisUrl });
+      this.client.on('error', logRedisError);
+    }
   }
 
   async connect() {
     try {
-      if (!this.client.isOpen) await this.client.connect();
+      if (this.cluster) {
+        if (!this.cluster.isOpen) await this.cluster.connect();
+      } else if (this.options.sentinel) {
+        await this.resolveMaster(this.options.sentinel);
+      } else if (this.client && !this.client.isOpen) {
+        await this.client.connect();
+      }
     } catch (error) {
       // Redis connection failed, cache will not be available
       // This is handled gracefully by the error handling in get/set methods
     }
   }
 
+  /**
+   * Client for single-key commands; cluster clients route them by key the same way
+   */
+  private get commands(): RedisClientType {
+    const client = this.cluster ?? this.client;
+    if (!client) {
+      // The master lookup failed so far: try again, backing off while the sentinels are unreachable
+      const { sentinel } = this.options;
+      if (sentinel && !this.closed && Date.now() >= this.nextResolveAt) {
+        void this.resolveMaster(sentinel).catch(logRedisError);
+      }
+      throw new Error('Redis master not resolved yet');
+    }
+    return client as RedisClientType;
+  }
+
+  private redisKey(key: string): string {
+    return this.keyPrefix + (this.hashTag ? withHashTag(key, this.hashTag(key)) : key);
+  }
+
+  private indexKey(name: string): string {
+    return `${this.keyPrefix}${INDEX_PREFIX}${name}`;
+  }
+
+  private cacheKey(redisKey: string): string {
+    const key = redisKey.slice(this.keyPrefix.length);
+    return this.hashTag ? withoutHashTag(key) : key;
+  }
+
   async get<T>(key: string): Promise<CacheValue<T> | undefined> {
     try {
-      const data = await this.client.get(key);
+      const data = this.serializer.binary
+        ? await this.commands.get(commandOptions({ returnBuffers: true }), this.redisKey(key))
+        : await this.commands.get(this.redisKey(key));
       if (!data) return undefined;
-      return JSON.parse(data) as CacheValue<T>;
+      return this.serializer.deserialize<T>(data);
     } catch (error) {
       // Redis unavailable, return undefined (cache miss)
       return undefined;
@@ -38,7 +165,13 @@ export class RedisStore {
 
   async set<T>(key: string, val: CacheValue<T>, ttlSeconds: number): Promise<void> {
     try {
-      await this.client.set(key, JSON.stringify(val), { EX: ttlSeconds });
+      await this.commands.set(this.redisKey(key), this.serializer.serialize(val), {
+        EX: ttlSeconds,
+      });
+      if (this.options.index) {
+        const names = [...keyIndexNames(key), ...(val.tags ?? []).map(tagIndexName)];
+        await this.addToIndexes(key, names, ttlSeconds);
+      }
     } catch (error) {
       // Redis unavailable, silently fail (no caching)
     }
@@ -46,17 +179,76 @@ export class RedisStore {
 
   async del(key: string): Promise<void> {
     try {
-      await this.client.del(key);
+      await this.commands.del(this.redisKey(key));
+      if (this.options.index) await this.removeFromIndexes([key]);
     } catch (error) {
       // Redis unavailable, silently fail
     }
   }
 
+  async mget<T>(keys: string[]): Promise<(CacheValue<T> | undefined)[]> {
+    if (!keys.length) return [];
+    const results: (CacheValue<T> | undefined)[] = keys.map(() => undefined);
+    try {
+      // Multi-key commands must stay within one cluster slot
+      const redisKeys = keys.map((k) => this.redisKey(k));
+      const groups = this.cluster
+        ? groupBySlot(redisKeys)
+        : [{ keys: redisKeys, indexes: keys.map((_, i) => i) }];
+      for (const group of groups) {
+        const data = this.serializer.binary
+          ? await this.commands.mGet(commandOptions({ returnBuffers: true }), group.keys)
+          : await this.commands.mGet(group.keys);
+        data.forEach((d, i) => {
+          if (d) results[group.indexes[i]] = this.serializer.deserialize<T>(d);
+        });
+      }
+    } catch (error) {
+      // Redis unavailable, return misses
+    }
+    return results;
+  }
+
+  async mdel(keys: string[]): Promise<void> {
+    if (!keys.length) return;
+    try {
+      const redisKeys = keys.map((k) => this.redisKey(k));
+      const groups = this.cluster ? groupBySlot(redisKeys) : [{ keys: redisKeys }];
+      for (const group of groups) await this.commands.del(group.keys);
+      if (this.options.index) await this.removeFromIndexes(keys);
+    } catch (error) {
+      // Redis unavailable, silently fail
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    const connections = [this.cluster, this.client, this.sentinelWatcher];
+    await Promise.all(
+      connections.map(async (c) => {
+        try {
+          if (c?.isOpen) await c.quit();
+        } catch (error) {
+          // Already disconnected
+        }
+      }),
+    );
+  }
+
   async keys(pattern = '*'): Promise<string[]> {
     try {
-      const iter = this.client.scanIterator({ MATCH: pattern });
+      const index = this.options.index ? indexNameOfPattern(pattern) : undefined;
+      if (index) {
+        const re = wildcardToRegExp(pattern);
+        return (await this.indexMembers(index)).filter((k) => re.test(k));
+      }
+      if (this.cluster) return await this.clusterKeys(this.cluster, pattern);
+      const iter = this.commands.scanIterator({ MATCH: toRedisMatch(pattern, this.keyPrefix) });
       const out: string[] = [];
-      for await (const k of iter) out.push(k as string);
+      for await (const k of iter) {
+        const key = this.cacheKey(k as string);
+        if (!key.startsWith(INDEX_PREFIX)) out.push(key);
+      }
       return out;
     } catch (error) {
       // Redis unavailable, return empty array
@@ -64,8 +256,197 @@ export class RedisStore {
     }
   }
 
+  /**
+   * Keys that may carry any of the tags; entries re-stored without a tag can still be listed
+   */
+  async keysWithTags(tags: string[]): Promise<string[]> {
+    if (!this.options.index) return this.keys('*');
+    try {
+      const members = await Promise.all(tags.map((t) => this.indexMembers(tagIndexName(t))));
+      return Array.from(new Set(members.flat()));
+    } catch (error) {
+      // Redis unavailable, return empty array
+      return [];
+    }
+  }
+
+  private async addToIndexes(key: string, names: string[], ttlSeconds: number): Promise<void> {
+    const now = Date.now();
+    const args = [key, String(now + Math.ceil(ttlSeconds * 1000)), String(now)];
+    // One key per script call: index sets of a key may live in different cluster slots
+    await Promise.all(
+      names.map((name) =>
+        this.commands.eval(INDEX_ADD_SCRIPT, { keys: [this.indexKey(name)], arguments: args }),
+      ),
+    );
+  }
+
+  private async removeFromIndexes(keys: string[]): Promise<void> {
+    // Tag sets are not known from the key; their members are checked by the tag lookup
+    const byIndex = new Map<string, string[]>();
+    for (const key of keys) {
+      for (const name of keyIndexNames(key)) {
+        const members = byIndex.get(name);
+        if (members) members.push(key);
+        else byIndex.set(name, [key]);
+      }
+    }
+    await Promise.all(
+      Array.from(byIndex, ([name, members]) => this.commands.zRem(this.indexKey(name), members)),
+    );
+  }
+
+  /**
+   * Unexpired members of an index set, dropping the expired ones
+   */
+  private async indexMembers(name: string): Promise<string[]> {
+    const now = Date.now();
+    await this.commands.zRemRangeByScore(this.indexKey(name), '-inf', now);
+    return this.commands.zRangeByScore(this.indexKey(name), now, '+inf');
+  }
+
+  /**
+   * SCAN every master, or only the one owning the pattern's slot when all matches share a tag
+   */
+  private async clusterKeys(cluster: RedisClusterType, pattern: string): Promise<string[]> {
+    const tag = this.options.cluster?.hashTag ? undefined : defaultHashTagOfPattern(pattern);
+    let masters = cluster.masters;
+    let match = toRedisMatch(`{*}${pattern}`, this.keyPrefix);
+    if (tag !== undefined) {
+      match = toRedisMatch(withHashTag(pattern, tag), this.keyPrefix);
+      masters = [cluster.getSlotMaster(slotOf(withHashTag('', tag)))];
+    }
+
+    const re = wildcardToRegExp(pattern);
+    const out: string[] = [];
+    for (const master of masters) {
+      const client = await cluster.nodeClient(master);
+      for await (const k of client.scanIterator({ MATCH: match })) {
+        // `{*}` may span a closing brace inside the key, so check the untagged key
+        const key = this.cacheKey(k as string);
+        if (re.test(key)) out.push(key);
+      }
+    }
+    return out;
+  }
+
+  /**
+   * One master lookup at a time; a failure delays the next lazy attempt exponentially
+   */
+  private resolveMaster(sentinel: RedisSentinelOptions): Promise<void> {
+    this.resolvingMaster ??= this.connectThroughSentinel(sentinel)
+      .then(() => {
+        this.resolveFailures = 0;
+      })
+      .catch((error) => {
+        const delay = SENTINEL_RETRY_MS * 2 ** this.resolveFailures++;
+        this.nextResolveAt = Date.now() + Math.min(delay, SENTINEL_RETRY_MAX_MS);
+        throw error;
+      })
+      .finally(() => (this.resolvingMaster = undefined));
+    return this.resolvingMaster;
+  }
+
+  /**
+   * Ask the sentinels for the current master, connect to it, and follow failovers
+   */
+  private async connectThroughSentinel(sentinel: RedisSentinelOptions): Promise<void> {
+    await this.connectToMaster(await resolveSentinelMaster(sentinel));
+    void this.watchFailovers(sentinel);
+  }
+
+  /**
+   * Subscribe to +switch-master on the first reachable sentinel
+   */
+  private async watchFailovers(sentinel: RedisSentinelOptions): Promise<void> {
+    for (const url of sentinel.sentinels) {
+      const watcher = createClient({
+        url,
+        // Give up on a dead sentinel; lost connections to the master still trigger a lookup
+        socket: { reconnectStrategy: (retries) => (retries > 5 ? false : retries * 200) },
+      }) as RedisClientType;
+      watcher.on('error', logRedisError);
+      try {
+        await watcher.connect();
+        // Payload: <name> <old ip> <old port> <new ip> <new port>
+        await watcher.subscribe('+switch-master', (message) => {
+          const [name, , , host, port] = message.split(' ');
+          if (name === sentinel.name) {
+            void this.connectToMaster({ host, port: Number(port) }).catch(logRedisError);
+          }
+        });
+        this.sentinelWatcher = watcher;
+        break;
+      } catch (error) {
+        logRedisError(error);
+        await watcher.disconnect().catch(() => undefined);
+      }
+    }
+  }
+
+  private async connectToMaster(address: { host: string; port: number }): Promise<void> {
+    const { sentinel } = this.options;
+    const id = `${address.host}:${address.port}`;
+    if (id === this.masterAddress) return;
+    this.masterAddress = id;
+
+    const client = createClient({
+      socket: { host: address.host, port: address.port },
+      username: sentinel?.username,
+      password: sentinel?.password,
+      database: sentinel?.database,
+    }) as RedisClientType;
+    client.on('error', logRedisError);
+    // A missed failover notice shows up as a lost connection: ask the sentinels again
+    client.on('reconnecting', () => {
+      if (!sentinel || this.client !== client || this.resolvingMaster) return;
+      this.resolvingMaster = resolveSentinelMaster(sentinel)
+        .then((master) => this.connectToMaster(master))
+        .catch(logRedisError)
+        .finally(() => (this.resolvingMaster = undefined));
+    });
+    try {
+      await client.connect();
+    } catch (error) {
+      if (this.masterAddress === id) this.masterAddress = undefined;
+      throw error;
+    }
+
+    const previous = this.client;
+    this.client = client;
+    if (previous?.isOpen) await previous.disconnect().catch(() => undefined);
+  }
+
   stats() {
     // Redis doesn't expose key count cheaply per prefix without SCAN
     return { keys: -1 };
   }
 }
+
+/**
+ * Address of the current master from the first sentinel that knows it
+ */
+export async function resolveSentinelMaster(
+  sentinel: RedisSentinelOptions,
+): Promise<{ host: string; port: number }> {
+  let lastError: unknown;
+  for (const url of sentinel.sentinels) {
+    const client = createClient({ url, socket: { reconnectStrategy: false } });
+    client.on('error', () => undefined);
+    try {
+      await client.connect();
+      const reply = await client.sendCommand<[string, string] | null>([
+        'SENTINEL',
+        'GET-MASTER-ADDR-BY-NAME',
+        sentinel.name,
+      ]);
+      if (reply) return { host: reply[0], port: Number(reply[1]) };
+      lastError = new Error(`Sentinel ${url} does not know master ${sentinel.name}`);
+    } catch (error) {
+      lastError = error;
+    } finally {
+      await client.disconnect().catch(() => undefined);
+    }
+  }
+  throw lastError ?? new Error('No sentinels configured');
+}
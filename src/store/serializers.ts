@@ -0,0 +1,66 @@
+import { decode, encode, ExtensionCodec } from '@msgpack/msgpack';
+import v8 from 'v8';
+
+import { decodeCacheValue, encodeCacheValue } from './codec';
+import type { CacheValue } from './memoryStore';
+
+/**
+ * Converts cache entries to and from the wire format of an out-of-process store
+ */
+export interface CacheSerializer {
+  name: string;
+  // Whether serialize produces Buffers, so the store should read raw bytes back
+  binary: boolean;
+  serialize<T>(val: CacheValue<T>): string | Buffer;
+  deserialize<T>(data: string | Buffer): CacheValue<T>;
+}
+
+/**
+ * JSON with tagged Buffers and Dates; human-readable in redis-cli
+ */
+export const jsonSerializer: CacheSerializer = {
+  name: 'json',
+  binary: false,
+  serialize: (val) => encodeCacheValue(val),
+  deserialize: (data) => decodeCacheValue(data.toString()),
+};
+
+/**
+ * Node's structured clone format: keeps Buffers, Dates, Maps and Sets
+ */
+export const v8Serializer: CacheSerializer = {
+  name: 'v8',
+  binary: true,
+  serialize: (val) => v8.serialize(val),
+  deserialize: (data) => v8.deserialize(Buffer.isBuffer(data) ? data : Buffer.from(data, 'binary')),
+};
+
+const BUFFER_EXT = 0;
+const MAP_EXT = 1;
+
+const extensionCodec = new ExtensionCodec();
+extensionCodec.register({
+  type: BUFFER_EXT,
+  encode: (input: unknown) => (Buffer.isBuffer(input) ? input : null),
+  decode: (data: Uint8Array) => Buffer.from(data),
+});
+extensionCodec.register({
+  type: MAP_EXT,
+  encode: (input: unknown) =>
+    input instanceof Map ? encode(Array.from(input.entries()), { extensionCodec }) : null,
+  decode: (data: Uint8Array) => new Map(decode(data, { extensionCodec }) as [unknown, unknown][]),
+});
+
+/**
+ * Compact MessagePack encoding with Buffer and Map extensions (Dates use the timestamp type)
+ */
+export const msgpackSerializer: CacheSerializer = {
+  name: 'msgpack',
+  binary: true,
+  serialize: (val) => {
+    const bytes = encode(val, { extensionCodec, ignoreUndefined: true });
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  },
+  deserialize: (data) =>
+    decode(Buffer.isBuffer(data) ? data : Buffer.from(data, 'binary'), { extensionCodec }) as any,
+};
@@ -0,0 +1,18 @@
+/**
+ * Parse a raw request body the way common body parsers would: JSON and urlencoded forms
+ * become objects, anything else stays text. Empty bodies parse to undefined.
+ */
+export function parseBody(text: string, contentType: string): unknown {
+  if (!text) return undefined;
+  if (contentType.includes('application/json')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+  return text;
+}
@@ -0,0 +1,73 @@
+export type CacheControlDirectives = Record<string, string | true>;
+
+export function parseCacheControl(header: unknown): CacheControlDirectives {
+  const directives: CacheControlDirectives = {};
+  const raw = Array.isArray(header) ? header.join(',') : header;
+  if (typeof raw !== 'string' || !raw) return directives;
+
+  for (const part of raw.split(',')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (!name) continue;
+    const value = rest
+      .join('=')
+      .trim()
+      .replace(/^"(.*)"$/, '$1');
+    directives[name.toLowerCase()] = value === '' ? true : value;
+  }
+  return directives;
+}
+
+function toSeconds(value: string | true | undefined): number | undefined {
+  if (typeof value !== 'string') return undefined;
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+/**
+ * Whether the request asks the cache to go to the origin instead of serving a stored entry
+ */
+export function requestRequiresRevalidation(req: any): boolean {
+  const cc = parseCacheControl(req?.headers?.['cache-control']);
+  return cc['no-cache'] !== undefined || toSeconds(cc['max-age']) === 0;
+}
+
+/**
+ * Whether the request forbids storing the response
+ */
+export function requestForbidsStorage(req: any): boolean {
+  return parseCacheControl(req?.headers?.['cache-control'])['no-store'] !== undefined;
+}
+
+/**
+ * Whether response directives forbid a shared cache from storing it
+ */
+export function responseForbidsStorage(cacheControl: unknown): boolean {
+  const cc = parseCacheControl(cacheControl);
+  return (
+    cc['no-store'] !== undefined || cc['private'] !== undefined || cc['no-cache'] !== undefined
+  );
+}
+
+/**
+ * Explicit freshness lifetime in seconds from s-maxage, max-age or Expires, in that order
+ */
+export function getResponseFreshness(
+  headers: { cacheControl?: unknown; expires?: unknown; date?: unknown },
+  now = Date.now(),
+): number | undefined {
+  const cc = parseCacheControl(headers.cacheControl);
+  const sMaxAge = toSeconds(cc['s-maxage']);
+  if (sMaxAge !== undefined) return sMaxAge;
+  const maxAge = toSeconds(cc['max-age']);
+  if (maxAge !== undefined) return maxAge;
+
+  if (headers.expires !== undefined && headers.expires !== null) {
+    const expires = Date.parse(String(headers.expires));
+    // An invalid Expires value means "already expired"
+    if (Number.isNaN(expires)) return 0;
+    const date = headers.date ? Date.parse(String(headers.date)) : NaN;
+    const base = Number.isNaN(date) ? now : date;
+    return Math.max(0, Math.ceil((expires - base) / 1000));
+  }
+  return undefined;
+}
@@ -0,0 +1,76 @@
+import { promisify } from 'util';
+import zlib from 'zlib';
+
+import type { CacheValue } from '../store/memoryStore';
+
+export type ContentCoding = 'gzip' | 'br';
+
+export interface CompressionOptions {
+  threshold?: number; // bytes; smaller bodies are stored as-is (default: 1024)
+  encoding?: ContentCoding; // default: 'gzip'
+}
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+
+/**
+ * Serialize a payload the way Express would send it
+ */
+function toBody(payload: any, headers: Record<string, string | string[]>) {
+  if (Buffer.isBuffer(payload)) return { body: payload, contentType: undefined };
+  if (typeof payload === 'string') {
+    return { body: Buffer.from(payload, 'utf8'), contentType: 'text/html; charset=utf-8' };
+  }
+  const contentType = headers['content-type'] ? undefined : 'application/json; charset=utf-8';
+  return { body: Buffer.from(JSON.stringify(payload), 'utf8'), contentType };
+}
+
+/**
+ * Compress an entry's payload when it is above the threshold; the payload becomes the encoded bytes
+ */
+export async function compressCacheValue(
+  val: CacheValue,
+  options: CompressionOptions,
+): Promise<CacheValue> {
+  if (val.encoding || val.value === undefined || val.value === null) return val;
+
+  const headers = val.headers ?? {};
+  const { body, contentType } = toBody(val.value, headers);
+  if (body.length < (options.threshold ?? 1024)) return val;
+
+  const encoding = options.encoding ?? 'gzip';
+  const compressed = encoding === 'br' ? await brotliCompress(body) : await gzip(body);
+  return {
+    ...val,
+    value: compressed,
+    encoding,
+    headers:
+      headers['content-type'] || !contentType
+        ? headers
+        : { ...headers, 'content-type': contentType },
+  };
+}
+
+export async function decompressBody(val: CacheValue<Buffer>): Promise<Buffer> {
+  if (val.encoding === 'br') return brotliDecompress(val.value);
+  if (val.encoding === 'gzip') return gunzip(val.value);
+  return val.value;
+}
+
+/**
+ * Whether an Accept-Encoding header allows the given content-coding (RFC 9110 §12.5.3)
+ */
+export function acceptsEncoding(header: unknown, encoding: ContentCoding): boolean {
+  if (typeof header !== 'string' || !header) return false;
+  let wildcard = false;
+  for (const part of header.split(',')) {
+    const [name, ...params] = part.trim().toLowerCase().split(';');
+    const q = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+    const allowed = !q || parseFloat(q.slice(2)) > 0;
+    if (name === encoding) return allowed;
+    if (name === '*') wildcard = allowed;
+  }
+  return wildcard;
+}
@@ -0,0 +1,37 @@
+import { sha256 } from './hash';
+
+/**
+ * Strong ETag for a response payload
+ */
+export function computeEtag(payload: any): string {
+  return `"${sha256(payload ?? '')}"`;
+}
+
+function stripWeak(tag: string): string {
+  return tag.startsWith('W/') ? tag.slice(2) : tag;
+}
+
+/**
+ * Evaluate If-None-Match / If-Modified-Since against a stored entry (RFC 9110 §13.2.2)
+ */
+export function isNotModified(req: any, etag: string | undefined, lastModified: number): boolean {
+  const headers = req?.headers ?? {};
+  const ifNoneMatch = headers['if-none-match'];
+  if (ifNoneMatch) {
+    if (!etag) return false;
+    const tags = String(ifNoneMatch)
+      .split(',')
+      .map((t) => t.trim());
+    // If-None-Match uses weak comparison
+    return tags.includes('*') || tags.some((t) => stripWeak(t) === stripWeak(etag));
+  }
+
+  const ifModifiedSince = headers['if-modified-since'];
+  if (ifModifiedSince) {
+    const since = Date.parse(String(ifModifiedSince));
+    if (Number.isNaN(since)) return false;
+    // HTTP dates have second precision
+    return Math.floor(lastModified / 1000) * 1000 <= since;
+  }
+  return false;
+}
@@ -0,0 +1,225 @@
+import type { InvalidationRule } from '../config';
+import { sha256 } from './hash';
+
+export type GraphQLOperationType = 'query' | 'mutation' | 'subscription';
+
+export interface GraphQLCacheOptions {
+  paths?: string[]; // endpoint paths served in GraphQL mode (default: ['/graphql'])
+  // Tags each mutation invalidates: a type ('User') or type and id ('User:{id}', from variables)
+  mutations?: Record<string, string[]>;
+  typenameTags?: boolean; // tag entries with the __typename / __typename:id values in data (default: true)
+  maxKnownDocuments?: number; // persisted query hashes remembered with their operation (default: 1000)
+}
+
+/**
+ * A parsed GraphQL request, attached to the request as req.graphql
+ */
+export interface GraphQLOperation {
+  operationType?: GraphQLOperationType; // undefined for an unknown persisted query
+  operationName?: string;
+  variables: Record<string, unknown>;
+  documentId: string; // verified persisted query hash, or hash of the normalized document
+  normalizedQuery?: string;
+}
+
+export type KnownDocument = Pick<GraphQLOperation, 'operationType' | 'operationName'>;
+
+/**
+ * Operations of persisted queries seen with their full text, keyed by hash. Clients choose the
+ * hashes, so the least recently used are dropped above maxEntries.
+ */
+export class KnownDocuments {
+  private entries = new Map<string, KnownDocument>();
+
+  constructor(private maxEntries: number) {}
+
+  get(hash: string): KnownDocument | undefined {
+    const document = this.entries.get(hash);
+    if (document) {
+      // Move to the most recently used end
+      this.entries.delete(hash);
+      this.entries.set(hash, document);
+    }
+    return document;
+  }
+
+  set(hash: string, document: KnownDocument): void {
+    this.entries.delete(hash);
+    this.entries.set(hash, document);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+const TOKEN =
+  /"""[\s\S]*?"""|"(?:[^"\\\n]|\\.)*"|\.\.\.|[!$&():=@[\]{|}]|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|[_A-Za-z][_0-9A-Za-z]*/g;
+
+/**
+ * Tokens of a GraphQL document, without whitespace, commas and comments
+ */
+function tokenize(query: string): string[] {
+  const withoutComments = query.replace(/"""[\s\S]*?"""|"(?:[^"\\\n]|\\.)*"|#[^\n\r]*/g, (m) =>
+    m.startsWith('#') ? ' ' : m,
+  );
+  return withoutComments.match(TOKEN) ?? [];
+}
+
+/**
+ * Canonical form of a document: same tokens, single spaces, so formatting does not matter
+ */
+export function normalizeGraphQLQuery(query: string): string {
+  return tokenize(query).join(' ');
+}
+
+/**
+ * Type and name of each operation defined in a document
+ */
+export function getGraphQLOperations(
+  query: string,
+): { operationType: GraphQLOperationType; operationName?: string }[] {
+  const tokens = tokenize(query);
+  const operations: { operationType: GraphQLOperationType; operationName?: string }[] = [];
+  let depth = 0;
+  // Set between a definition keyword and the selection set it opens
+  let inDefinition = false;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (depth === 0) {
+      if (token === '{' && inDefinition) {
+        inDefinition = false;
+      } else if (token === '{') {
+        // Shorthand `{ ... }` is an anonymous query
+        operations.push({ operationType: 'query' });
+      } else if (token === 'query' || token === 'mutation' || token === 'subscription') {
+        const next = tokens[i + 1];
+        const operationName = next && /^[_A-Za-z]/.test(next) ? next : undefined;
+        operations.push({ operationType: token, operationName });
+        inDefinition = true;
+      } else if (token === 'fragment') {
+        inDefinition = true;
+      }
+    }
+    if (token === '{') depth++;
+    else if (token === '}') depth--;
+  }
+  return operations;
+}
+
+function parseJsonParam(value: unknown): any {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read a GraphQL request from a POST body or GET query string; undefined when it is not one.
+ * knownDocuments remembers the operations of persisted queries seen with their full text.
+ */
+export function parseGraphQLRequest(
+  req: any,
+  knownDocuments?: KnownDocuments,
+): GraphQLOperation | undefined {
+  const method = (req.method || 'GET').toUpperCase();
+  let params: any = method === 'GET' ? req.query : req.body;
+  if (typeof params === 'string' || Buffer.isBuffer(params))
+    params = parseJsonParam(String(params));
+  if (!params || typeof params !== 'object' || Array.isArray(params)) return undefined;
+
+  const extensions = parseJsonParam(params.extensions);
+  const persistedHash: string | undefined = extensions?.persistedQuery?.sha256Hash;
+  const query = typeof params.query === 'string' ? params.query : undefined;
+  if (!query && !persistedHash) return undefined;
+
+  const variables = parseJsonParam(params.variables) ?? {};
+  const requestedName = typeof params.operationName === 'string' ? params.operationName : undefined;
+
+  if (!query) {
+    // Hash-only persisted query: only known once the document has been seen
+    const known = knownDocuments?.get(persistedHash!);
+    return {
+      operationType: known?.operationType,
+      operationName: requestedName ?? known?.operationName,
+      variables,
+      documentId: persistedHash!,
+    };
+  }
+
+  const operations = getGraphQLOperations(query);
+  const operation = requestedName
+    ? operations.find((op) => op.operationName === requestedName)
+    : operations.length === 1
+      ? operations[0]
+      : undefined;
+
+  // A client-supplied hash only stands for this document when it is the document's hash
+  const verifiedHash = persistedHash === sha256(query) ? persistedHash : undefined;
+  const normalizedQuery = normalizeGraphQLQuery(query);
+  const parsed: GraphQLOperation = {
+    operationType: operation?.operationType,
+    operationName: requestedName ?? operation?.operationName,
+    variables,
+    documentId: verifiedHash ?? sha256(normalizedQuery),
+    normalizedQuery,
+  };
+  if (verifiedHash && parsed.operationType) {
+    const { operationType, operationName } = parsed;
+    knownDocuments?.set(verifiedHash, { operationType, operationName });
+  }
+  return parsed;
+}
+
+/**
+ * `Type` and `Type:id` tags for every object with a __typename in a GraphQL result
+ */
+export function collectTypenameTags(result: unknown): string[] {
+  const tags = new Set<string>();
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (!value || typeof value !== 'object') return;
+    const obj = value as Record<string, unknown>;
+    if (typeof obj.__typename === 'string') {
+      tags.add(obj.__typename);
+      if (obj.id !== undefined && obj.id !== null) tags.add(`${obj.__typename}:${obj.id}`);
+    }
+    Object.values(obj).forEach(visit);
+  };
+  visit((result as any)?.data);
+  return Array.from(tags);
+}
+
+/**
+ * Parse a captured GraphQL response body (object, JSON string or Buffer)
+ */
+export function parseGraphQLResult(body: unknown): any {
+  if (typeof body === 'string' || Buffer.isBuffer(body)) return parseJsonParam(String(body));
+  return body;
+}
+
+/**
+ * Pattern engine rules invalidating the declared tags after each mutation
+ */
+export function createMutationRules(mutations: Record<string, string[]> = {}): InvalidationRule[] {
+  return Object.entries(mutations).map(([name, tags]) => ({
+    name: `graphql-${name}`,
+    description: `Invalidate ${tags.join(', ')} after the ${name} mutation`,
+    methods: ['GET', 'POST'],
+    pathPattern: '*',
+    // An unknown persisted query named like a declared mutation is taken to be it
+    condition: (req: any) =>
+      (req.graphql?.operationType ?? 'mutation') === 'mutation' &&
+      req.graphql?.operationName === name,
+    invalidatePatterns: [],
+    invalidateTags: tags,
+  }));
+}
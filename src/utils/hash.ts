@@ -23,9 +23,19 @@ export function getPayloadSize(payload: any): number {
   }
 }
 
+/**
+ * Canonical JSON-able form: object keys sorted, and Date/Map/Set tagged by content instead of
+ * collapsing to `{}`. Map entries and Set values are sorted so insertion order does not matter.
+ */
 function sanitizeObject(obj: any): any {
   if (obj == null) return obj;
   if (Array.isArray(obj)) return obj.map(sanitizeObject);
+  if (obj instanceof Date) return { $date: obj.getTime() };
+  if (obj instanceof Map) {
+    const entries = Array.from(obj, ([k, v]) => [sanitizeObject(k), sanitizeObject(v)]);
+    return { $map: sortByJson(entries) };
+  }
+  if (obj instanceof Set) return { $set: sortByJson(Array.from(obj, sanitizeObject)) };
   if (typeof obj === 'object') {
     const keys = Object.keys(obj).sort();
     const out: any = {};
@@ -34,3 +44,10 @@ function sanitizeObject(obj: any): any {
   }
   return obj;
 }
+
+function sortByJson(values: any[]): any[] {
+  return values
+    .map((v) => [JSON.stringify(v), v] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([, v]) => v);
+}
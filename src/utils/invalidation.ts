@@ -1,5 +1,8 @@
 import type { CacheMethod, InvalidationRule, InvalidationOptions } from '../config';
-import type { CacheStore } from '../middleware';
+import type { CacheStore } from '../store/cacheStore';
+import { deleteMany } from '../store/cacheStore';
+import type { InvalidationMessage } from './invalidationBus';
+import { deleteTaggedEntries } from './tags';
 
 /**
  * Interface for parsed cache keys
@@ -41,12 +44,21 @@ export class PatternInvalidationEngine {
   private readonly timeout: number;
   private readonly enableDebugging: boolean;
   private readonly logger?: any;
+  private readonly publish?: (message: InvalidationMessage) => void;
 
-  constructor(options: InvalidationOptions, logger?: any) {
+  /**
+   * publish receives each pattern and tag invalidation, for other instances to replay
+   */
+  constructor(
+    options: InvalidationOptions,
+    logger?: any,
+    publish?: (message: InvalidationMessage) => void
+  ) {
     this.maxDepth = options.maxInvalidationDepth ?? 3;
     this.timeout = options.invalidationTimeout ?? 5000;
     this.enableDebugging = options.enableInvalidationDebugging ?? false;
     this.logger = logger;
+    this.publish = publish;
   }
 
   /**
@@ -85,12 +97,13 @@ export class PatternInvalidationEngine {
       userId: getUserId(req)
     });
 
+    let timer: NodeJS.Timeout | undefined;
     try {
       await Promise.race([
         this.performInvalidation(req, stores, options, getUserId, context),
-        new Promise((_, reject) =>
-          setTimeout(() => reject(new Error('Invalidation timeout')), this.timeout)
-        )
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error('Invalidation timeout')), this.timeout);
+        })
       ]);
 
       this.log(context, 'info', 'Pattern invalidation completed', {
@@ -100,9 +113,30 @@ export class PatternInvalidationEngine {
     } catch (error) {
       this.log(context, 'error', 'Pattern invalidation failed', { error: this.getErrorMessage(error) });
       throw error;
+    } finally {
+      clearTimeout(timer);
     }
   }
 
+  /**
+   * Delete keys of the given methods matching a pattern, limited to userId's keys when given
+   */
+  async invalidateMatching(
+    pattern: string,
+    targetMethods: CacheMethod[],
+    stores: CacheStore[],
+    userId?: string
+  ): Promise<void> {
+    const context: InvalidationContext = {
+      requestId: this.generateRequestId(),
+      depth: 0,
+      processed: new Set([pattern]),
+      startTime: Date.now(),
+      logger: this.logger
+    };
+    await this.invalidateByPattern(pattern, targetMethods, stores, context, userId !== undefined, userId);
+  }
+
   /**
    * Perform the actual invalidation
    */
@@ -138,8 +172,8 @@ export class PatternInvalidationEngine {
   private getApplicableRules(req: any, options: InvalidationOptions): InvalidationRule[] {
     const rules: InvalidationRule[] = [];
 
-    // Add auto-generated REST rules
-    if (options.autoInvalidateRules?.autoGenerateRestRules) {
+    // Add auto-generated REST rules (URLs carry no resource information for GraphQL)
+    if (options.autoInvalidateRules?.autoGenerateRestRules && !req.graphql) {
       rules.push(...this.generateRestRules(req));
     }
 
@@ -209,8 +243,22 @@ export class PatternInvalidationEngine {
 
         context.processed.add(expandedPattern);
         await this.invalidateByPattern(expandedPattern, targetMethods, stores, context, rule.respectUserScope, userId);
+        this.publish?.({
+          type: 'match',
+          pattern: expandedPattern,
+          methods: targetMethods,
+          userId: rule.respectUserScope ? userId : undefined
+        });
       }
     }
+
+    if (rule.invalidateTags?.length) {
+      // Tags name shared resources, so they are not user scoped
+      const tags = rule.invalidateTags.map(tag => this.expandPlaceholders(tag, req));
+      const removed = await deleteTaggedEntries(stores, tags);
+      this.publish?.({ type: 'tags', tags });
+      this.log(context, 'debug', 'Tag invalidation complete', { tags, totalInvalidated: removed });
+    }
   }
 
   /**
@@ -222,17 +270,8 @@ export class PatternInvalidationEngine {
     userId: string | undefined,
     respectUserScope: boolean
   ): string[] {
-    let expanded = pattern;
-
-    // Extract path parameters first
-    const pathParams = this.extractPathParameters(req);
-    
     // Replace path parameters first (these take precedence)
-    for (const [key, value] of Object.entries(pathParams)) {
-      if (value !== undefined && value !== null) {
-        expanded = expanded.replace(new RegExp(`\\{${key}\\}`, 'g'), value as string);
-      }
-    }
+    let expanded = this.expandPlaceholders(pattern, req);
 
     // Replace remaining placeholders with authenticated user context
     expanded = expanded.replace(/\{userId\}/g, userId || 'anon');
@@ -252,6 +291,20 @@ export class PatternInvalidationEngine {
     }
   }
 
+  /**
+   * Replace {param} placeholders with values from the request
+   */
+  private expandPlaceholders(pattern: string, req: any): string {
+    let expanded = pattern;
+    const pathParams = this.extractPathParameters(req);
+    for (const [key, value] of Object.entries(pathParams)) {
+      if (value !== undefined && value !== null) {
+        expanded = expanded.replace(new RegExp(`\\{${key}\\}`, 'g'), value as string);
+      }
+    }
+    return expanded;
+  }
+
   /**
    * Invalidate cache entries matching a pattern
    */
@@ -269,7 +322,8 @@ export class PatternInvalidationEngine {
 
     for (const store of stores) {
       try {
-        const keys = await store.keys();
+        // Placeholders left unexpanded match any part
+        const keys = await store.keys(pattern.replace(/\{[^}]+\}/g, '*'));
         const matchingKeys = keys.filter(key => {
           const parsed = this.parseCacheKey(key);
           if (!parsed || !targetMethods.includes(parsed.method as CacheMethod)) {
@@ -290,7 +344,7 @@ export class PatternInvalidationEngine {
         });
 
         // Invalidate matching keys
-        await Promise.all(matchingKeys.map(key => store.del(key)));
+        await deleteMany(store, matchingKeys);
         totalInvalidated += matchingKeys.length;
 
         this.log(context, 'debug', 'Store invalidation complete', {
@@ -480,11 +534,13 @@ export class PatternInvalidationEngine {
    */
   private extractPathParameters(req: any): Record<string, any> {
     // Try to get from various common parameter sources
+    const variables = req.graphql?.variables;
     return {
+      ...variables,
       ...req.params,
       ...req.query,
-      id: req.params?.id || req.query?.id,
-      userId: req.params?.userId || req.query?.userId,
+      id: req.params?.id || req.query?.id || variables?.id,
+      userId: req.params?.userId || req.query?.userId || variables?.userId,
     };
   }
 
@@ -0,0 +1,114 @@
+import { randomUUID } from 'crypto';
+
+import type { CacheMethod } from '../config';
+import type { LoggerLike } from './logger';
+
+/**
+ * An invalidation replayed by the other instances on their local stores
+ */
+export type InvalidationMessage =
+  | { type: 'pattern'; pattern: string } // clearCache and URL-based invalidation
+  | { type: 'tags'; tags: string[] }
+  // Pattern engine rule: keys of the given methods (and user, when scoped) matching the pattern
+  | { type: 'match'; pattern: string; methods: CacheMethod[]; userId?: string };
+
+/**
+ * Carries messages between instances. Every subscriber receives every published message,
+ * including its own.
+ */
+export interface InvalidationTransport {
+  publish(message: string): Promise<void>;
+  // onStatus reports whether messages are currently being received
+  subscribe(
+    onMessage: (message: string) => void,
+    onStatus: (connected: boolean) => void,
+  ): Promise<void>;
+  close?(): Promise<void>;
+}
+
+export interface InvalidationBusOptions {
+  transport?: InvalidationTransport; // default: Redis pub/sub on redisUrl (or the first cluster node)
+  channel?: string; // pub/sub channel of the default transport (default: 'api-cache:invalidation')
+  fallbackTtl?: number; // seconds; local entries written while the bus is down expire this soon (default: 5)
+}
+
+interface Envelope {
+  origin: string;
+  message: InvalidationMessage;
+}
+
+/**
+ * Publishes local invalidations and hands the other instances' ones to `apply`. Messages are
+ * tagged with the instance id so an instance never replays its own, and replayed messages
+ * are not published again.
+ */
+export class InvalidationBus {
+  readonly instanceId = randomUUID();
+  private connected = false;
+
+  constructor(
+    private transport: InvalidationTransport,
+    private handlers: {
+      apply: (message: InvalidationMessage) => Promise<void>;
+      // Called when messages start or stop arriving; some may have been missed in between
+      onStatusChange: (connected: boolean) => Promise<void>;
+    },
+    private logger?: LoggerLike,
+  ) {}
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  async start(): Promise<void> {
+    try {
+      await this.transport.subscribe(
+        (raw) => void this.receive(raw),
+        (connected) => void this.setConnected(connected),
+      );
+    } catch (error) {
+      this.logger?.warn && this.logger.warn('[invalidation bus unavailable]', error);
+    }
+  }
+
+  async publish(message: InvalidationMessage): Promise<void> {
+    const envelope: Envelope = { origin: this.instanceId, message };
+    try {
+      await this.transport.publish(JSON.stringify(envelope));
+    } catch (error) {
+      this.logger?.warn && this.logger.warn('[invalidation publish failed]', error);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.transport.close?.();
+  }
+
+  private async receive(raw: string): Promise<void> {
+    let envelope: Envelope;
+    try {
+      envelope = JSON.parse(raw);
+    } catch (error) {
+      this.logger?.warn && this.logger.warn('[invalid invalidation message]', raw);
+      return;
+    }
+    if (envelope.origin === this.instanceId) return;
+    try {
+      await this.handlers.apply(envelope.message);
+    } catch (error) {
+      this.logger?.warn && this.logger.warn('[remote invalidation failed]', error);
+    }
+  }
+
+  private async setConnected(connected: boolean): Promise<void> {
+    if (connected === this.connected) return;
+    this.connected = connected;
+    if (connected) this.logger?.info && this.logger.info('[invalidation bus connected]');
+    else this.logger?.warn && this.logger.warn('[invalidation bus down]');
+    try {
+      await this.handlers.onStatusChange(connected);
+    } catch (error) {
+      this.logger?.warn && this.logger.warn('[invalidation bus status handler failed]', error);
+    }
+  }
+}
@@ -1,3 +1,4 @@
+import type { GraphQLOperation } from './graphql';
 import { sha256 } from './hash';
 import type { ApiCacheOptions } from '../config';
 
@@ -20,18 +21,50 @@ export function sortQueryParams(url: string): string {
   }
 }
 
+/**
+ * Parse a Vary header into lowercase request header names, or '*' when the response varies on everything
+ */
+export function parseVary(header: unknown): string[] | '*' {
+  const raw = Array.isArray(header) ? header.join(',') : header;
+  if (typeof raw !== 'string' || !raw.trim()) return [];
+  const names = raw
+    .split(',')
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+  return names.includes('*') ? '*' : Array.from(new Set(names));
+}
+
+/**
+ * Fingerprint of the request header values a response varies on
+ */
+export function buildVaryFingerprint(req: any, varyHeaders: string[]): string {
+  const names = Array.from(new Set(varyHeaders.map((h) => h.toLowerCase()))).sort();
+  if (!names.length) return '';
+  const headers = req.headers ?? {};
+  const parts = names.map((name) => {
+    const value = headers[name];
+    return `${name}=${Array.isArray(value) ? value.join(',') : (value ?? '')}`;
+  });
+  return sha256(parts.join('\n')).slice(0, 16);
+}
+
 export function buildCacheKey(
   req: any,
-  options: Required<Pick<ApiCacheOptions, 'getUserId'>>,
+  options: Required<Pick<ApiCacheOptions, 'getUserId'>> & { varyHeaders?: string[] },
 ): string {
-  const method = (req.method || 'GET').toUpperCase();
+  const graphql: GraphQLOperation | undefined = req.graphql;
+  // GraphQL queries over GET and POST share one method segment
+  const method = graphql ? 'GRAPHQL' : (req.method || 'GET').toUpperCase();
   const url = req.originalUrl || req.url || '';
   const norm = normalizeUrl(url);
-  const sortedQuery = sortQueryParams(url);
+  const sortedQuery = graphql ? `op=${graphql.operationName ?? ''}` : sortQueryParams(url);
   const userId = options.getUserId?.(req) || 'anon';
 
   let bodyHash = '';
-  if (method !== 'GET') {
+  if (graphql) {
+    // Same document and variables share an entry whatever the formatting
+    bodyHash = sha256({ document: graphql.documentId, variables: graphql.variables });
+  } else if (method !== 'GET') {
     try {
       const body = req.body ?? {};
       bodyHash = sha256(body);
@@ -40,5 +73,9 @@ export function buildCacheKey(
     }
   }
 
+  // Variants share the body hash segment so invalidation patterns keep their 5-part shape
+  const vary = buildVaryFingerprint(req, options.varyHeaders ?? []);
+  if (vary) bodyHash = `${bodyHash}@${vary}`;
+
   return [method, norm, sortedQuery, bodyHash, userId].join(':');
 }
@@ -0,0 +1,89 @@
+function toBuffer(chunk: any, encoding?: unknown): Buffer {
+  if (Buffer.isBuffer(chunk)) return chunk;
+  if (typeof chunk === 'string') {
+    return Buffer.from(chunk, typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8');
+  }
+  if (chunk instanceof Uint8Array)
+    return Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+  return Buffer.from(String(chunk));
+}
+
+/**
+ * Buffer everything written through res.write/res.end (including piped streams) while
+ * passing it through unchanged. onEnd receives the assembled body, or undefined when
+ * more than maxBytes were written and buffering was abandoned.
+ */
+export function captureStreamedBody(
+  res: any,
+  maxBytes: number,
+  onEnd: (body: Buffer | undefined) => void,
+): void {
+  if (typeof res.end !== 'function') return;
+
+  const originalWrite = res.write;
+  const originalEnd = res.end;
+  let chunks: Buffer[] = [];
+  let size = 0;
+  let overflow = false;
+  let ended = false;
+
+  const collect = (chunk: any, encoding?: unknown) => {
+    if (overflow || chunk == null || typeof chunk === 'function') return;
+    const buf = toBuffer(chunk, encoding);
+    size += buf.length;
+    if (size > maxBytes) {
+      // Stop holding on to data we will never store
+      overflow = true;
+      chunks = [];
+      return;
+    }
+    chunks.push(buf);
+  };
+
+  if (typeof originalWrite === 'function') {
+    res.write = function (...args: any[]) {
+      collect(args[0], args[1]);
+      return originalWrite.apply(this, args);
+    };
+  }
+
+  res.end = function (...args: any[]) {
+    if (!ended) {
+      ended = true;
+      collect(args[0], args[1]);
+      onEnd(overflow ? undefined : Buffer.concat(chunks));
+    }
+    return originalEnd.apply(this, args);
+  };
+}
+
+/**
+ * Apply headers passed to res.writeHead through setHeader, so they stay visible to
+ * res.getHeader when the response is captured.
+ */
+export function captureWriteHead(res: any): void {
+  const originalWriteHead = res.writeHead;
+  if (typeof originalWriteHead !== 'function') return;
+
+  res.writeHead = function (statusCode: number, ...rest: any[]) {
+    const headers = typeof rest[0] === 'string' ? rest[1] : rest[0];
+    if (headers && !res.headersSent) {
+      if (Array.isArray(headers)) {
+        // Raw [name, value, name, value] form
+        const grouped: Record<string, string[]> = {};
+        for (let i = 0; i + 1 < headers.length; i += 2) {
+          (grouped[String(headers[i]).toLowerCase()] ||= []).push(String(headers[i + 1]));
+        }
+        for (const [name, values] of Object.entries(grouped)) {
+          res.setHeader(name, values.length === 1 ? values[0] : values);
+        }
+      } else {
+        for (const [name, value] of Object.entries(headers)) {
+          if (value !== undefined) res.setHeader(name, value);
+        }
+      }
+    }
+    const reason = typeof rest[0] === 'string' ? [rest[0]] : [];
+    return originalWriteHead.call(this, statusCode, ...reason);
+  };
+}
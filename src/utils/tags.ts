@@ -0,0 +1,19 @@
+import { deleteMany, getMany, type CacheStore } from '../store/cacheStore';
+
+/**
+ * Delete entries stored with any of the given tags, returning how many were removed
+ */
+export async function deleteTaggedEntries(stores: CacheStore[], tags: string[]): Promise<number> {
+  if (!tags.length) return 0;
+  const wanted = new Set(tags);
+  const counts = await Promise.all(
+    stores.map(async (s) => {
+      const keys = s.keysWithTags ? await s.keysWithTags(tags) : await s.keys('*');
+      const entries = await getMany(s, keys);
+      const tagged = keys.filter((k, i) => entries[i]?.tags?.some((t) => wanted.has(t)));
+      await deleteMany(s, tagged);
+      return tagged.length;
+    }),
+  );
+  return counts.reduce((a, b) => a + b, 0);
+}